@@ -12,6 +12,10 @@ import {
   createDiagnosticsBackendInterface,
   type DiagnosticsPort,
 } from "@lmstudio/lms-diagnostics-backend-interface";
+import {
+  createEmbeddingBackendInterface,
+  type EmbeddingPort,
+} from "@lmstudio/lms-embedding-backend-interface";
 import { generateRandomBase64 } from "@lmstudio/lms-isomorphic";
 import { createLlmBackendInterface, type LLMPort } from "@lmstudio/lms-llm-backend-interface";
 import {
@@ -23,6 +27,7 @@ import process from "process";
 import { z } from "zod";
 import { createAuthenticatedClientPort } from "./createAuthenticatedClientPort";
 import { DiagnosticsNamespace } from "./diagnostics/DiagnosticsNamespace";
+import { EmbeddingNamespace } from "./embedding/EmbeddingNamespace";
 import { friendlyErrorDeserializer } from "./friendlyErrorDeserializer";
 import { LLMNamespace } from "./llm/LLMNamespace";
 import { SystemNamespace } from "./system/SystemNamespace";
@@ -95,11 +100,14 @@ export class LMStudioClient {
   /** @internal */
   private readonly llmPort: LLMPort;
   /** @internal */
+  private readonly embeddingPort: EmbeddingPort;
+  /** @internal */
   private readonly systemPort: SystemPort;
   /** @internal */
   private readonly diagnosticsPort: DiagnosticsPort;
 
   public readonly llm: LLMNamespace;
+  public readonly embedding: EmbeddingNamespace;
   public readonly system: SystemNamespace;
   public readonly diagnostics: DiagnosticsNamespace;
 
@@ -233,6 +241,19 @@ export class LMStudioClient {
       },
     );
 
+    this.embeddingPort = createAuthenticatedClientPort(
+      createEmbeddingBackendInterface(),
+      resolvingBaseUrl,
+      "embedding",
+      this.clientIdentifier,
+      this.clientPasskey,
+      new SimpleLogger("Embedding", this.logger),
+      {
+        errorDeserializer: friendlyErrorDeserializer,
+        verboseErrorMessage: verboseErrorMessages ?? false,
+      },
+    );
+
     this.systemPort = createAuthenticatedClientPort(
       createSystemBackendInterface(),
       resolvingBaseUrl,
@@ -262,6 +283,7 @@ export class LMStudioClient {
     const validator = new Validator();
 
     this.llm = new LLMNamespace(this.llmPort, validator, this.logger);
+    this.embedding = new EmbeddingNamespace(this.embeddingPort, validator, this.logger);
     this.system = new SystemNamespace(this.systemPort, this.logger);
     this.diagnostics = new DiagnosticsNamespace(this.diagnosticsPort, validator, this.logger);
   }
@@ -0,0 +1,49 @@
+import { Validator } from "@lmstudio/lms-common";
+import { createStubEmbeddingPort } from "../testing/createStubEmbeddingPort";
+import { EmbeddingDynamicHandle } from "./EmbeddingDynamicHandle";
+
+describe("embed", () => {
+  const specifier = { type: "query", query: { identifier: "nomic" } } as const;
+
+  test("should return a single embedding for a string", async () => {
+    const stub = createStubEmbeddingPort();
+    stub.handleRpc("embedStrings", () => ({ embeddings: [[0.1, 0.2, 0.3]] }));
+    const handle = new EmbeddingDynamicHandle(stub.port, specifier, new Validator());
+    await expect(handle.embed("Hello")).resolves.toEqual([0.1, 0.2, 0.3]);
+    expect(stub.rpcCalls).toEqual([
+      { endpoint: "embedStrings", param: { modelSpecifier: specifier, inputStrings: ["Hello"] } },
+    ]);
+  });
+
+  test("should return the embeddings of an array in the order of the inputs", async () => {
+    const stub = createStubEmbeddingPort();
+    stub.handleRpc("embedStrings", ({ inputStrings }) => ({
+      embeddings: inputStrings.map((input: string) => [input.length, 0]),
+    }));
+    const handle = new EmbeddingDynamicHandle(stub.port, specifier, new Validator());
+    await expect(handle.embed(["a", "bbb", "cc"])).resolves.toEqual([
+      [1, 0],
+      [3, 0],
+      [2, 0],
+    ]);
+    expect(stub.rpcCalls).toHaveLength(1);
+  });
+
+  test("should reject if no model is loaded", async () => {
+    const stub = createStubEmbeddingPort();
+    stub.handleRpc("embedStrings", () => {
+      throw new Error("No model found");
+    });
+    const handle = new EmbeddingDynamicHandle(stub.port, specifier, new Validator());
+    await expect(handle.embed("Hello")).rejects.toThrow("No model found");
+  });
+
+  test("should reject input that is not a string or an array of strings", async () => {
+    const handle = new EmbeddingDynamicHandle(
+      createStubEmbeddingPort().port,
+      specifier,
+      new Validator(),
+    );
+    await expect(handle.embed(42 as any)).rejects.toThrow("embed");
+  });
+});
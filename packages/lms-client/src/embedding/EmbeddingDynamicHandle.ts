@@ -0,0 +1,104 @@
+import { getCurrentStack, SimpleLogger, type Validator } from "@lmstudio/lms-common";
+import { type EmbeddingPort } from "@lmstudio/lms-embedding-backend-interface";
+import { type EmbeddingDescriptor, type EmbeddingModelSpecifier } from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+
+/**
+ * This represents a set of requirements for an embedding model. It is not tied to a specific model,
+ * but rather to a set of requirements that a model must satisfy.
+ *
+ * For example, if you got the model via `client.embedding.createDynamicHandle("my-identifier")`,
+ * you will get a handle for the model with the identifier `my-identifier`. If the model is unloaded,
+ * and another model is loaded with the same identifier, using the same handle will use the new
+ * model.
+ *
+ * @public
+ */
+export class EmbeddingDynamicHandle {
+  /**
+   * Don't construct this on your own. Use {@link EmbeddingNamespace#get} or
+   * {@link EmbeddingNamespace#load} instead.
+   *
+   * @internal
+   */
+  public constructor(
+    /** @internal */
+    private readonly embeddingPort: EmbeddingPort,
+    /** @internal */
+    private readonly specifier: EmbeddingModelSpecifier,
+    /** @internal */
+    private readonly validator: Validator,
+    /** @internal */
+    private readonly logger: SimpleLogger = new SimpleLogger(`EmbeddingModel`),
+  ) {}
+
+  /**
+   * Use the loaded model to compute the embedding of a string.
+   *
+   * Example usage:
+   *
+   * ```typescript
+   * const embedding = await model.embed("The quick brown fox jumps over the lazy dog");
+   * console.log(embedding.length);
+   * ```
+   *
+   * @param inputString - The string to embed.
+   * @returns A promise that resolves to the embedding vector.
+   */
+  public embed(inputString: string): Promise<Array<number>>;
+  /**
+   * Use the loaded model to compute the embeddings of multiple strings. The strings are sent to LM
+   * Studio in a single request.
+   *
+   * Example usage:
+   *
+   * ```typescript
+   * const embeddings = await model.embed(["Hello", "World"]);
+   * console.log(embeddings[0].length);
+   * ```
+   *
+   * @param inputStrings - The strings to embed.
+   * @returns A promise that resolves to the embedding vectors, in the same order as the inputs.
+   */
+  public embed(inputStrings: Array<string>): Promise<Array<Array<number>>>;
+  public async embed(input: string | Array<string>): Promise<Array<number> | Array<Array<number>>> {
+    const stack = getCurrentStack(1);
+    this.validator.validateMethodParamOrThrow(
+      "model",
+      "embed",
+      "input",
+      z.union([z.string(), z.array(z.string())]),
+      input,
+      stack,
+    );
+    const inputStrings = typeof input === "string" ? [input] : input;
+    const { embeddings } = await this.embeddingPort.callRpc(
+      "embedStrings",
+      { modelSpecifier: this.specifier, inputStrings },
+      { stack },
+    );
+    if (typeof input === "string") {
+      return embeddings[0];
+    }
+    return embeddings;
+  }
+
+  /**
+   * Gets the information of the model that is currently associated with this handle. If no model
+   * is currently associated, this will return `undefined`.
+   *
+   * Note: As models are loaded/unloaded, the model associated with this handle may change at any
+   * moment.
+   */
+  public async getModelInfo(): Promise<EmbeddingDescriptor | undefined> {
+    const info = await this.embeddingPort.callRpc(
+      "getModelInfo",
+      { specifier: this.specifier, throwIfNotFound: false },
+      { stack: getCurrentStack(1) },
+    );
+    if (info === undefined) {
+      return undefined;
+    }
+    return info.descriptor;
+  }
+}
@@ -0,0 +1,81 @@
+import { Validator } from "@lmstudio/lms-common";
+import { silentLogger } from "../testing/createStubLLMPort";
+import {
+  createStubEmbeddingPort,
+  type StubEmbeddingPort,
+} from "../testing/createStubEmbeddingPort";
+import { EmbeddingNamespace } from "./EmbeddingNamespace";
+
+const nomicPath = "nomic-ai/nomic-embed-text-v1.5-GGUF";
+const nomic = {
+  sessionIdentifier: "session-nomic",
+  descriptor: { identifier: "nomic", path: `${nomicPath}/nomic-embed-text-v1.5.Q8_0.gguf` },
+};
+
+function createNamespace(stub: StubEmbeddingPort) {
+  return new EmbeddingNamespace(stub.port, new Validator(), silentLogger);
+}
+
+describe("get", () => {
+  test("should return the loaded model matching the identifier", async () => {
+    const stub = createStubEmbeddingPort();
+    stub.setLoadedModels([nomic]);
+    stub.handleRpc("embedStrings", () => ({ embeddings: [[1]] }));
+    const model = await createNamespace(stub).get("nomic");
+    expect(model.identifier).toBe("nomic");
+    expect(model.path).toBe(nomic.descriptor.path);
+    await model.embed("Hello");
+    expect(stub.rpcCalls.map(({ param }) => param.specifier ?? param.modelSpecifier)).toEqual([
+      { type: "query", query: { identifier: "nomic" } },
+      { type: "sessionIdentifier", sessionIdentifier: "session-nomic" },
+    ]);
+  });
+
+  test("should reject if no model is loaded", async () => {
+    const stub = createStubEmbeddingPort();
+    stub.setLoadedModels([]);
+    await expect(createNamespace(stub).get({ path: nomicPath })).rejects.toThrow("No model found");
+  });
+});
+
+describe("load", () => {
+  test("should report the progress and resolve to a handle of the loaded model", async () => {
+    const stub = createStubEmbeddingPort();
+    stub.handleChannel("loadModel", channel => {
+      channel.emit({ type: "progress", progress: 0.5 });
+      channel.emit({ type: "success", sessionIdentifier: "session-nomic" });
+    });
+    stub.handleRpc("embedStrings", () => ({ embeddings: [[1]] }));
+    const onProgress = jest.fn();
+    const model = await createNamespace(stub).load(nomicPath, { identifier: "nomic", onProgress });
+    expect(stub.channels[0].param).toEqual({
+      path: nomicPath,
+      identifier: "nomic",
+      config: {},
+      noHup: false,
+    });
+    expect(onProgress.mock.calls).toEqual([[0.5]]);
+    await model.embed("Hello");
+    expect(stub.rpcCalls[0].param.modelSpecifier).toEqual({
+      type: "sessionIdentifier",
+      sessionIdentifier: "session-nomic",
+    });
+  });
+
+  test("should reject if loading fails", async () => {
+    const stub = createStubEmbeddingPort();
+    stub.handleChannel("loadModel", channel => channel.fail(new Error("Model not found")));
+    await expect(createNamespace(stub).load(nomicPath, { verbose: false })).rejects.toThrow(
+      "Model not found",
+    );
+  });
+});
+
+describe("unload", () => {
+  test("should unload the model with the identifier", async () => {
+    const stub = createStubEmbeddingPort();
+    stub.handleRpc("unloadModel", () => undefined);
+    await createNamespace(stub).unload("nomic");
+    expect(stub.rpcCalls).toEqual([{ endpoint: "unloadModel", param: { identifier: "nomic" } }]);
+  });
+});
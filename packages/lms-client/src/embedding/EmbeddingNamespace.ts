@@ -0,0 +1,376 @@
+import {
+  getCurrentStack,
+  makePrettyError,
+  makePromise,
+  SimpleLogger,
+  text,
+  type LoggerInterface,
+  type Validator,
+} from "@lmstudio/lms-common";
+import { type EmbeddingPort } from "@lmstudio/lms-embedding-backend-interface";
+import {
+  embeddingLoadModelConfigSchema,
+  embeddingModelQuerySchema,
+  logLevelSchema,
+  reasonableKeyStringSchema,
+  type EmbeddingDescriptor,
+  type EmbeddingLoadModelConfig,
+  type EmbeddingModelQuery,
+  type LogLevel,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { startTimeLimit, timeLimitOptsShape, type TimeLimitOpts } from "../timeLimit";
+import { EmbeddingDynamicHandle } from "./EmbeddingDynamicHandle";
+import { EmbeddingSpecificModel } from "./EmbeddingSpecificModel";
+
+/**
+ * Options for {@link EmbeddingNamespace#load}. Once the time limit (see {@link TimeLimitOpts}) is reached,
+ * loading is cancelled and the returned promise rejects.
+ *
+ * @public
+ */
+export interface EmbeddingLoadModelOpts extends TimeLimitOpts {
+  /**
+   * The identifier to use for the loaded model.
+   *
+   * By default, the identifier is the same as the path (1st parameter). If the identifier already
+   * exists, a number will be attached. This option allows you to specify the identifier to use.
+   *
+   * However, when the identifier is specified and it is in use, an error will be thrown. If the
+   * call is successful, it is guaranteed that the loaded model will have the specified identifier.
+   */
+  identifier?: string;
+
+  /**
+   * The configuration to use when loading the model. See {@link EmbeddingLoadModelConfig} for
+   * details.
+   */
+  config?: EmbeddingLoadModelConfig;
+
+  /**
+   * An `AbortSignal` to cancel the model loading. This is useful if you wish to add a functionality
+   * to cancel the model loading.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Controls the logging of model loading progress.
+   *
+   * - If set to `true`, logs progress at the "info" level.
+   * - If set to `false`, no logs are emitted. This is the default.
+   * - If a specific logging level is desired, it can be provided as a string. Acceptable values are
+   *   "debug", "info", "warn", and "error".
+   *
+   * Logs are directed to the logger specified during the `LMStudioClient` construction.
+   *
+   * Progress logs will be disabled if an `onProgress` callback is provided.
+   *
+   * Default value is "info", which logs progress at the "info" level.
+   */
+  verbose?: boolean | LogLevel;
+
+  /**
+   * A function that is called with the progress of the model loading. The function is called with a
+   * number between 0 and 1, inclusive, representing the progress of the model loading.
+   *
+   * If an `onProgress` callback is provided, verbose progress logs will be disabled.
+   */
+  onProgress?: (progress: number) => void;
+
+  /**
+   * By default, the model will automatically be unloaded when the last client with the same
+   * `clientIdentifier` disconnects. If you set this option to `true`, the model will not be
+   * automatically unloaded.
+   */
+  noHup?: boolean;
+}
+
+const embeddingLoadModelOptsSchema = z.object({
+  identifier: z.string().optional(),
+  config: embeddingLoadModelConfigSchema.optional(),
+  signal: z.instanceof(AbortSignal).optional(),
+  verbose: z.union([z.boolean(), logLevelSchema]).optional(),
+  onProgress: z.function().optional(),
+  noHup: z.boolean().optional(),
+  ...timeLimitOptsShape,
+});
+
+/** @public */
+export class EmbeddingNamespace {
+  /** @internal */
+  private readonly logger: SimpleLogger;
+  /** @internal */
+  public constructor(
+    private readonly embeddingPort: EmbeddingPort,
+    private readonly validator: Validator,
+    parentLogger: LoggerInterface,
+  ) {
+    this.logger = new SimpleLogger("Embedding", parentLogger);
+  }
+
+  /**
+   * Load an embedding model. The first parameter is the model path. The second parameter is an
+   * optional object with additional options.
+   *
+   * To find out what embedding models are available, you can use the `lms ls` command, or
+   * programmatically use the `client.system.listDownloadedModels` method and look for models with
+   * type `embedding`.
+   *
+   * Example usage:
+   *
+   * ```typescript
+   * const model = await client.embedding.load("nomic-ai/nomic-embed-text-v1.5-GGUF");
+   * const embedding = await model.embed("Hello, world!");
+   * ```
+   *
+   * @param path - The path of the model to load.
+   * @param opts - Options for loading the model. See {@link EmbeddingLoadModelOpts} for details.
+   * @returns A promise that resolves to the model that can be used for embedding
+   */
+  public async load(
+    path: string,
+    opts: EmbeddingLoadModelOpts = {},
+  ): Promise<EmbeddingDynamicHandle> {
+    const stack = getCurrentStack(1);
+    [path, opts] = this.validator.validateMethodParamsOrThrow(
+      "client.embedding",
+      "load",
+      ["path", "opts"],
+      [reasonableKeyStringSchema, embeddingLoadModelOptsSchema],
+      [path, opts],
+      stack,
+    );
+    const {
+      identifier,
+      signal,
+      verbose = "info",
+      config,
+      onProgress,
+      noHup,
+      timeoutMs,
+      deadline,
+    } = opts;
+    let lastVerboseCallTime = 0;
+
+    const { promise, resolve, reject } = makePromise<EmbeddingDynamicHandle>();
+    const verboseLevel = typeof verbose === "boolean" ? "info" : verbose;
+
+    const startTime = Date.now();
+    if (verbose) {
+      this.logger.logAtLevel(
+        verboseLevel,
+        text`
+          Verbose logging is enabled. To hide progress logs, set the "verbose" option to false in
+          client.embedding.load.
+        `,
+      );
+    }
+
+    const channel = this.embeddingPort.createChannel(
+      "loadModel",
+      {
+        path,
+        identifier,
+        config: config ?? {},
+        noHup: noHup ?? false,
+      },
+      message => {
+        switch (message.type) {
+          case "success": {
+            if (verbose) {
+              this.logger.logAtLevel(
+                verboseLevel,
+                text`
+                  Successfully loaded embedding model ${path} in ${Date.now() - startTime}ms
+                `,
+              );
+            }
+            resolve(
+              new EmbeddingDynamicHandle(
+                this.embeddingPort,
+                { type: "sessionIdentifier", sessionIdentifier: message.sessionIdentifier },
+                this.validator,
+                this.logger,
+              ),
+            );
+            break;
+          }
+          case "progress": {
+            const { progress } = message;
+            if (onProgress !== undefined) {
+              onProgress(progress);
+            } else if (verbose) {
+              const now = Date.now();
+              if (now - lastVerboseCallTime > 500 || progress === 1) {
+                const progressText = (progress * 100).toFixed(1);
+                this.logger.logAtLevel(
+                  verboseLevel,
+                  `Loading embedding model ${path}, progress: ${progressText}%`,
+                );
+                lastVerboseCallTime = now;
+              }
+            }
+          }
+        }
+      },
+      { stack },
+    );
+
+    channel.onError.subscribeOnce(reject);
+    signal?.addEventListener("abort", () => {
+      channel.send({ type: "cancel" });
+      reject(signal.reason);
+    });
+    const stopTimeLimit = startTimeLimit({ timeoutMs, deadline }, () => {
+      channel.send({ type: "cancel" });
+      reject(
+        makePrettyError(
+          text`
+            Loading model ${path} was cancelled because it did not finish within the time limit
+            (set with the "timeoutMs" or "deadline" option).
+          `,
+          stack,
+        ),
+      );
+    });
+    promise.then(stopTimeLimit, stopTimeLimit);
+
+    return promise;
+  }
+
+  /**
+   * Unload an embedding model. Once a model is unloaded, it can no longer be used. If you wish to
+   * use the model afterwards, you will need to load it with {@link EmbeddingNamespace#load} again.
+   *
+   * @param identifier - The identifier of the model to unload.
+   */
+  public unload(identifier: string) {
+    const stack = getCurrentStack(1);
+    this.validator.validateMethodParamOrThrow(
+      "client.embedding",
+      "unload",
+      "identifier",
+      reasonableKeyStringSchema,
+      identifier,
+      stack,
+    );
+    return this.embeddingPort.callRpc("unloadModel", { identifier }, { stack });
+  }
+
+  /**
+   * List all the currently loaded embedding models.
+   */
+  public listLoaded(): Promise<Array<EmbeddingDescriptor>> {
+    const stack = getCurrentStack(1);
+    return this.embeddingPort.callRpc("listLoaded", undefined, { stack });
+  }
+
+  /**
+   * Get a specific embedding model that satisfies the given query. The returned model is tied to
+   * the specific model at the time of the call.
+   *
+   * For more information on the query, see {@link EmbeddingModelQuery}.
+   */
+  public get(query: EmbeddingModelQuery): Promise<EmbeddingSpecificModel>;
+  /**
+   * Get a specific embedding model by its identifier. The returned model is tied to the specific
+   * model at the time of the call.
+   */
+  public get(path: string): Promise<EmbeddingSpecificModel>;
+  public async get(param: string | EmbeddingModelQuery): Promise<EmbeddingSpecificModel> {
+    const stack = getCurrentStack(1);
+    this.validator.validateMethodParamOrThrow(
+      "client.embedding",
+      "get",
+      "param",
+      z.union([reasonableKeyStringSchema, embeddingModelQuerySchema]),
+      param,
+      stack,
+    );
+    let query: EmbeddingModelQuery;
+    if (typeof param === "string") {
+      query = {
+        identifier: param,
+      };
+    } else {
+      query = param;
+    }
+    const info = await this.embeddingPort.callRpc(
+      "getModelInfo",
+      {
+        specifier: {
+          type: "query",
+          query,
+        },
+        throwIfNotFound: true,
+      },
+      { stack },
+    );
+    if (info === undefined) {
+      throw new Error("Backend should have thrown.");
+    }
+    return new EmbeddingSpecificModel(
+      this.embeddingPort,
+      info.sessionIdentifier,
+      info.descriptor,
+      this.validator,
+      new SimpleLogger("EmbeddingSpecificModel", this.logger),
+    );
+  }
+
+  /**
+   * Get a dynamic model handle for any loaded embedding model that satisfies the given query.
+   *
+   * For more information on the query, see {@link EmbeddingModelQuery}.
+   *
+   * Note: The returned handle is not tied to any specific loaded model. If the model that satisfies
+   * the query is unloaded, the handle will still be valid, but any method calls on it will fail.
+   * And later, if a new model is loaded that satisfies the query, the handle will be usable again.
+   *
+   * @param query - The query to use to get the model.
+   */
+  public createDynamicHandle(query: EmbeddingModelQuery): EmbeddingDynamicHandle;
+  /**
+   * Get a dynamic model handle by its identifier.
+   *
+   * @param identifier - The identifier of the model to get.
+   */
+  public createDynamicHandle(identifier: string): EmbeddingDynamicHandle;
+  public createDynamicHandle(param: string | EmbeddingModelQuery): EmbeddingDynamicHandle {
+    const stack = getCurrentStack(1);
+    this.validator.validateMethodParamOrThrow(
+      "client.embedding",
+      "createDynamicHandle",
+      "param",
+      z.union([reasonableKeyStringSchema, embeddingModelQuerySchema]),
+      param,
+      stack,
+    );
+    let query: EmbeddingModelQuery;
+    if (typeof param === "string") {
+      query = {
+        identifier: param,
+      };
+    } else {
+      query = param;
+    }
+    if (query.path?.includes("\\")) {
+      throw makePrettyError(
+        text`
+          Model path should not contain backslashes, even if you are on Windows. Use forward
+          slashes instead.
+        `,
+        stack,
+      );
+    }
+    return new EmbeddingDynamicHandle(
+      this.embeddingPort,
+      {
+        type: "query",
+        query,
+      },
+      this.validator,
+      new SimpleLogger("EmbeddingDynamicHandle", this.logger),
+    );
+  }
+}
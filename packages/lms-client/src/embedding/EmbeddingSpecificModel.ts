@@ -0,0 +1,31 @@
+import { SimpleLogger, type Validator } from "@lmstudio/lms-common";
+import { type EmbeddingPort } from "@lmstudio/lms-embedding-backend-interface";
+import { type EmbeddingDescriptor, type EmbeddingModelSpecifier } from "@lmstudio/lms-shared-types";
+import { EmbeddingDynamicHandle } from "./EmbeddingDynamicHandle";
+
+/**
+ * Represents a specific loaded embedding model. Most embedding related operations are inherited
+ * from {@link EmbeddingDynamicHandle}.
+ *
+ * @public
+ */
+export class EmbeddingSpecificModel extends EmbeddingDynamicHandle {
+  public readonly identifier: string;
+  public readonly path: string;
+  /** @internal */
+  public constructor(
+    embeddingPort: EmbeddingPort,
+    sessionIdentifier: string,
+    descriptor: EmbeddingDescriptor,
+    validator: Validator,
+    logger: SimpleLogger = new SimpleLogger(`EmbeddingSpecificModel`),
+  ) {
+    const specifier: EmbeddingModelSpecifier = {
+      type: "sessionIdentifier",
+      sessionIdentifier,
+    };
+    super(embeddingPort, specifier, validator, logger);
+    this.identifier = descriptor.identifier;
+    this.path = descriptor.path;
+  }
+}
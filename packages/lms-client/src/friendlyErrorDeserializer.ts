@@ -146,6 +146,54 @@ registerErrorDeserializer(
   },
 );
 
+registerErrorDeserializer(
+  "llm.stateNotFound",
+  ({ name, availableStatesSample, totalStates }, stack) => {
+    let states: string;
+    if (availableStatesSample.length === 0) {
+      states = chalk.gray("    This model does not have any saved states.");
+    } else {
+      states = availableStatesSample.map(state => chalk.cyanBright(" · " + state)).join("\n");
+      if (availableStatesSample.length < totalStates) {
+        states += chalk.gray(`\n     ... (and ${totalStates - availableStatesSample.length} more)`);
+      }
+    }
+    return makeTitledPrettyError(
+      `Cannot find a saved state with name "${chalk.yellowBright(name)}"`,
+      text`
+        Here are the saved states of this model:
+
+        ${states}
+
+        States are kept until the model is unloaded. Use ${chalk.yellowBright("model.saveState")}
+        to save a state.
+      `,
+      stack,
+    );
+  },
+);
+
+registerErrorDeserializer(
+  "llm.invalidGrammar",
+  ({ structuredType, error, line, column }, stack) => {
+    const location =
+      line === undefined
+        ? ""
+        : chalk.gray(` (line ${line}${column === undefined ? "" : `, column ${column}`})`);
+    return makeTitledPrettyError(
+      structuredType === "grammar"
+        ? "The GBNF grammar was rejected by LM Studio"
+        : "The regular expression was rejected by LM Studio",
+      text`
+        ${chalk.white(error)}${location}
+
+        Check the ${chalk.yellowBright("structured")} option of the prediction.
+      `,
+      stack,
+    );
+  },
+);
+
 export function friendlyErrorDeserializer(
   serialized: SerializedLMSExtendedError,
   stack?: string,
@@ -1,13 +1,36 @@
 export type { DiagnosticsNamespace } from "./diagnostics/DiagnosticsNamespace";
+export type { EmbeddingDynamicHandle } from "./embedding/EmbeddingDynamicHandle";
+export type { EmbeddingLoadModelOpts, EmbeddingNamespace } from "./embedding/EmbeddingNamespace";
+export type { EmbeddingSpecificModel } from "./embedding/EmbeddingSpecificModel";
+export type { ActResult } from "./llm/ActResult";
+export type { BatchPredictionResult, LLMBatchPredictionStats } from "./llm/BatchPredictionResult";
+export type { ChatSession, ChatSessionOpts, SerializedChatSession } from "./llm/ChatSession";
 export type {
+  LLMActOpts,
+  LLMChatResponseBatchOpts,
   LLMChatResponseOpts,
+  LLMCompletionBatchOpts,
   LLMCompletionOpts,
   LLMDynamicHandle,
+  LLMWaitUntilAvailableOpts,
 } from "./llm/LLMDynamicHandle";
-export type { LLMLoadModelOpts, LLMNamespace } from "./llm/LLMNamespace";
+export type { LLMGetOrLoadOpts, LLMLoadModelOpts, LLMNamespace } from "./llm/LLMNamespace";
+export type { LLMPool } from "./llm/LLMPool";
 export type { LLMSpecificModel } from "./llm/LLMSpecificModel";
+export type { LLMActEvent, OngoingAct } from "./llm/OngoingAct";
+export type { LLMBatchPredictionItem, OngoingBatchPrediction } from "./llm/OngoingBatchPrediction";
+export type {
+  DeepPartial,
+  OngoingPartialPrediction,
+  PartialStructuredOutput,
+} from "./llm/OngoingPartialPrediction";
+export type { OngoingLoad } from "./llm/OngoingLoad";
 export type { OngoingPrediction } from "./llm/OngoingPrediction";
 export type { PredictionResult } from "./llm/PredictionResult";
+export type { LLMStructuredPredictionOpt } from "./llm/structuredOutput";
 export { LMStudioClient } from "./LMStudioClient";
 export type { LMStudioClientConstructorOpts } from "./LMStudioClient";
 export type { SystemNamespace } from "./system/SystemNamespace";
+export type { TimeLimitOpts } from "./timeLimit";
+export { tool } from "./llm/Tool";
+export type { Tool } from "./llm/Tool";
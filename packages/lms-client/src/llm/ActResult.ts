@@ -0,0 +1,29 @@
+import { type LLMChatHistory } from "@lmstudio/lms-shared-types";
+import { type PredictionResult } from "./PredictionResult";
+
+/**
+ * Represents the result of {@link LLMDynamicHandle#act}.
+ *
+ * The most notably property is {@link ActResult#finalResult}, which contains the final answer of
+ * the model.
+ *
+ * @public
+ */
+export class ActResult {
+  public constructor(
+    /**
+     * The number of prediction rounds that were made. Each round either ends with tool calls or
+     * with the final answer.
+     */
+    public readonly rounds: number,
+    /**
+     * The full history of the conversation, including the tool call requests, the tool results and
+     * the final answer of the model.
+     */
+    public readonly history: LLMChatHistory,
+    /**
+     * The result of the last prediction round.
+     */
+    public readonly finalResult: PredictionResult,
+  ) {}
+}
@@ -0,0 +1,106 @@
+import { type LLMPredictionStats, type LLMPredictionStopReason } from "@lmstudio/lms-shared-types";
+import { type PredictionResult } from "./PredictionResult";
+
+/**
+ * Statistics aggregated over all the predictions of a batch.
+ *
+ * @public
+ */
+export interface LLMBatchPredictionStats {
+  /**
+   * The number of predictions that finished. (This includes predictions that were stopped early,
+   * for example because of `maxPredictedTokens`.)
+   */
+  succeededCount: number;
+  /**
+   * The number of predictions that failed, or that never started because the batch was cancelled.
+   */
+  failedCount: number;
+  /**
+   * For each stop reason, the number of finished predictions that stopped because of it.
+   */
+  stopReasonCounts: Partial<Record<LLMPredictionStopReason, number>>;
+  /**
+   * The total number of prompt tokens over all finished predictions.
+   */
+  promptTokensCount: number;
+  /**
+   * The total number of predicted tokens over all finished predictions.
+   */
+  predictedTokensCount: number;
+  /**
+   * The total number of tokens (prompt and predicted) over all finished predictions.
+   */
+  totalTokensCount: number;
+  /**
+   * The average of the tokens per second of the finished predictions that reported it. `undefined`
+   * if none did.
+   */
+  averageTokensPerSecond?: number;
+  /**
+   * The wall-clock time between the start of the batch and the end of the last prediction, in
+   * seconds.
+   */
+  totalTimeSec: number;
+}
+
+/**
+ * @internal
+ */
+export function aggregatePredictionStats(
+  results: ReadonlyArray<PredictionResult<unknown> | Error>,
+  totalTimeSec: number,
+): LLMBatchPredictionStats {
+  const aggregate: LLMBatchPredictionStats = {
+    succeededCount: 0,
+    failedCount: 0,
+    stopReasonCounts: {},
+    promptTokensCount: 0,
+    predictedTokensCount: 0,
+    totalTokensCount: 0,
+    totalTimeSec,
+  };
+  const tokensPerSecondValues: Array<number> = [];
+  for (const result of results) {
+    if (result instanceof Error) {
+      aggregate.failedCount++;
+      continue;
+    }
+    const stats: LLMPredictionStats = result.stats;
+    aggregate.succeededCount++;
+    aggregate.stopReasonCounts[stats.stopReason] =
+      (aggregate.stopReasonCounts[stats.stopReason] ?? 0) + 1;
+    aggregate.promptTokensCount += stats.promptTokensCount ?? 0;
+    aggregate.predictedTokensCount += stats.predictedTokensCount ?? 0;
+    aggregate.totalTokensCount += stats.totalTokensCount ?? 0;
+    if (stats.tokensPerSecond !== undefined) {
+      tokensPerSecondValues.push(stats.tokensPerSecond);
+    }
+  }
+  if (tokensPerSecondValues.length > 0) {
+    aggregate.averageTokensPerSecond =
+      tokensPerSecondValues.reduce((sum, value) => sum + value, 0) / tokensPerSecondValues.length;
+  }
+  return aggregate;
+}
+
+/**
+ * Represents the result of a batch prediction ({@link LLMDynamicHandle#completeBatch} or
+ * {@link LLMDynamicHandle#respondBatch}).
+ *
+ * @typeParam TStructuredOutput - The type of {@link PredictionResult#parsed} of each prediction.
+ * @public
+ */
+export class BatchPredictionResult<TStructuredOutput = undefined> {
+  public constructor(
+    /**
+     * The result of each prediction, in the same order as the inputs. If a prediction failed, its
+     * entry is the error instead.
+     */
+    public readonly results: ReadonlyArray<PredictionResult<TStructuredOutput> | Error>,
+    /**
+     * Statistics aggregated over all the predictions of the batch.
+     */
+    public readonly stats: LLMBatchPredictionStats,
+  ) {}
+}
@@ -0,0 +1,134 @@
+import { Validator } from "@lmstudio/lms-common";
+import {
+  createStubLLMPort,
+  makeSuccessPacket,
+  makeTestDescriptor,
+  type StubLLMPort,
+} from "../testing/createStubLLMPort";
+import { ChatSession } from "./ChatSession";
+import { LLMDynamicHandle } from "./LLMDynamicHandle";
+
+function createSession(stub: StubLLMPort, systemPrompt?: string) {
+  const handle = new LLMDynamicHandle(
+    stub.port,
+    { type: "query", query: { identifier: "model-a" } },
+    new Validator(),
+  );
+  return handle.createChatSession({ systemPrompt });
+}
+
+/**
+ * Makes the stub answer every prediction with the given replies, in order.
+ */
+function handleReplies(stub: StubLLMPort, ...replies: Array<string>) {
+  stub.handleChannel("predict", channel => {
+    const reply = replies.shift();
+    if (reply === undefined) {
+      channel.fail(new Error("Prediction failed"));
+      return;
+    }
+    channel.emit({ type: "fragment", fragment: reply });
+    channel.emit(makeSuccessPacket(makeTestDescriptor("model-a")));
+  });
+}
+
+describe("ChatSession", () => {
+  test("should append the user message and the response to the history", async () => {
+    const stub = createStubLLMPort();
+    handleReplies(stub, "Paris.");
+    const session = createSession(stub, "Be brief.");
+    await session.say("What is the capital of France?");
+    expect(stub.channels[0].param.history).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "What is the capital of France?" },
+    ]);
+    expect(session.getHistory()).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "What is the capital of France?" },
+      { role: "assistant", content: "Paris." },
+    ]);
+  });
+
+  test("should remove the user message if the prediction fails", async () => {
+    const stub = createStubLLMPort();
+    handleReplies(stub);
+    const session = createSession(stub);
+    await expect(session.say("Hello")).rejects.toThrow("Prediction failed");
+    expect(session.getHistory()).toEqual([]);
+  });
+
+  test("should not allow another call while a prediction is ongoing", async () => {
+    const stub = createStubLLMPort();
+    handleReplies(stub, "Hi!");
+    const session = createSession(stub);
+    const prediction = session.say("Hello");
+    expect(() => session.say("Are you there?")).toThrow("while a prediction is ongoing");
+    await prediction;
+    expect(() => session.undo()).not.toThrow();
+  });
+
+  test("should replace the last response when regenerating", async () => {
+    const stub = createStubLLMPort();
+    handleReplies(stub, "Hi!", "Hello there!");
+    const session = createSession(stub);
+    await session.say("Hello");
+    await session.regenerate();
+    expect(session.getHistory()).toEqual([
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hello there!" },
+    ]);
+  });
+
+  test("should remove the last turn on undo", async () => {
+    const stub = createStubLLMPort();
+    handleReplies(stub, "Hi!", "Fine.");
+    const session = createSession(stub, "Be brief.");
+    await session.say("Hello");
+    await session.say("How are you?");
+    expect(session.undo()).toEqual([
+      { role: "user", content: "How are you?" },
+      { role: "assistant", content: "Fine." },
+    ]);
+    expect(session.getHistory()).toHaveLength(3);
+  });
+
+  test("should replace the system prompt", () => {
+    const session = createSession(createStubLLMPort(), "Be brief.");
+    session.setSystemPrompt("Be verbose.");
+    expect(session.getSystemPrompt()).toBe("Be verbose.");
+    session.setSystemPrompt(undefined);
+    expect(session.getHistory()).toEqual([]);
+  });
+
+  test("should be restorable from its JSON", async () => {
+    const stub = createStubLLMPort();
+    handleReplies(stub, "Hi!");
+    const session = createSession(stub, "Be brief.");
+    await session.say("Hello");
+    const handle = new LLMDynamicHandle(
+      stub.port,
+      { type: "query", query: { identifier: "model-a" } },
+      new Validator(),
+    );
+    const restored = handle.createChatSession(JSON.parse(JSON.stringify(session)));
+    expect(restored.getHistory()).toEqual(session.getHistory());
+  });
+});
+
+describe("toJSON", () => {
+  test("should embed image buffers as base64", () => {
+    const session = new ChatSession({} as LLMDynamicHandle, new Validator(), {
+      history: [
+        {
+          role: "user",
+          content: [{ type: "image", buffer: new Uint8Array([1, 2, 3]), mimeType: "image/png" }],
+        },
+      ],
+    });
+    expect(JSON.parse(JSON.stringify(session))).toEqual({
+      history: [
+        { role: "user", content: [{ type: "image", base64: "AQID", mimeType: "image/png" }] },
+      ],
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { getCurrentStack, makePrettyError, text, type Validator } from "@lmstudio/lms-common";
+import {
+  llmChatHistoryContentPartSchema,
+  llmChatHistorySchema,
+  type LLMChatHistory,
+  type LLMChatHistoryContentPart,
+  type LLMChatHistoryMessage,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+import { type LLMChatResponseOpts, type LLMDynamicHandle } from "./LLMDynamicHandle";
+import { type OngoingPrediction } from "./OngoingPrediction";
+import { resolveChatHistoryImagesSync } from "./resolveChatHistoryImages";
+
+/**
+ * The JSON representation of a {@link ChatSession}. Returned by {@link ChatSession#toJSON} and can
+ * be passed to {@link LLMDynamicHandle#createChatSession} to restore the session.
+ *
+ * @public
+ */
+export interface SerializedChatSession {
+  history: LLMChatHistory;
+}
+
+/** @public */
+export interface ChatSessionOpts {
+  /**
+   * The history to start the session with. Use this to restore a session that was saved with
+   * {@link ChatSession#toJSON}.
+   */
+  history?: LLMChatHistory;
+  /**
+   * The system prompt of the session. If the history already contains a system prompt, it is
+   * replaced.
+   */
+  systemPrompt?: string;
+}
+export const chatSessionOptsSchema = z.object({
+  history: llmChatHistorySchema.optional(),
+  systemPrompt: z.string().optional(),
+});
+
+/**
+ * A stateful conversation with a model. The session owns an {@link LLMChatHistory}: every call to
+ * {@link ChatSession#say} appends the user message to the history, streams the response of the
+ * model via {@link LLMDynamicHandle#respond}, and appends the response to the history once the
+ * prediction finishes.
+ *
+ * Example usage:
+ *
+ * ```typescript
+ * const session = model.createChatSession({ systemPrompt: "You are a helpful assistant." });
+ * for await (const fragment of session.say("What is the capital of France?")) {
+ *   process.stdout.write(fragment);
+ * }
+ * const result = await session.say("And of Germany?");
+ * console.log(result.content);
+ * ```
+ *
+ * Only one prediction can be ongoing in a session at a time.
+ *
+ * @public
+ */
+export class ChatSession {
+  /** @internal */
+  private history: LLMChatHistory;
+  /** @internal */
+  private ongoingPrediction: OngoingPrediction | null = null;
+
+  /**
+   * Don't construct this on your own. Use {@link LLMDynamicHandle#createChatSession} instead.
+   *
+   * @internal
+   */
+  public constructor(
+    /** @internal */
+    private readonly model: LLMDynamicHandle,
+    /** @internal */
+    private readonly validator: Validator,
+    { history = [], systemPrompt }: ChatSessionOpts = {},
+  ) {
+    this.history = [...history];
+    if (systemPrompt !== undefined) {
+      this.replaceSystemPrompt(systemPrompt);
+    }
+  }
+
+  /** @internal */
+  private assertNotPredicting(methodName: string, stack: string) {
+    if (this.ongoingPrediction !== null) {
+      throw makePrettyError(
+        text`
+          Cannot call session.${methodName} while a prediction is ongoing in this session. Wait for
+          the prediction to finish, or cancel it first.
+        `,
+        stack,
+      );
+    }
+  }
+
+  /** @internal */
+  private replaceSystemPrompt(systemPrompt: string | undefined) {
+    const index = this.history.findIndex(message => message.role === "system");
+    if (systemPrompt === undefined) {
+      if (index !== -1) {
+        this.history.splice(index, 1);
+      }
+    } else if (index === -1) {
+      this.history.unshift({ role: "system", content: systemPrompt });
+    } else {
+      this.history[index] = { role: "system", content: systemPrompt };
+    }
+  }
+
+  /** @internal */
+  private respond(opts: LLMChatResponseOpts) {
+    const ongoingPrediction = this.model.respond(this.history, opts);
+    this.ongoingPrediction = ongoingPrediction;
+    return ongoingPrediction;
+  }
+
+  /**
+   * Add a user message to the session and get the response of the model. The response is appended
+   * to the history once the prediction finishes. If the prediction fails, the user message is
+   * removed from the history again.
+   *
+   * @param content - The content of the user message. Either a string, or an array of content
+   * parts (for example, to attach images). See {@link LLMChatHistoryContentPart}.
+   * @param opts - Options for the prediction. See {@link LLMChatResponseOpts}.
+   */
+  public say(
+    content: string | Array<LLMChatHistoryContentPart>,
+    opts: LLMChatResponseOpts = {},
+  ): OngoingPrediction {
+    const stack = getCurrentStack(1);
+    content = this.validator.validateMethodParamOrThrow(
+      "session",
+      "say",
+      "content",
+      z.union([z.string(), z.array(llmChatHistoryContentPartSchema)]),
+      content,
+      stack,
+    );
+    this.assertNotPredicting("say", stack);
+    const userMessage: LLMChatHistoryMessage = { role: "user", content };
+    this.history.push(userMessage);
+    const ongoingPrediction = this.respond(opts);
+    ongoingPrediction.then(
+      result => {
+        this.ongoingPrediction = null;
+        this.history.push({ role: "assistant", content: result.content });
+      },
+      () => {
+        this.ongoingPrediction = null;
+        const index = this.history.lastIndexOf(userMessage);
+        if (index !== -1) {
+          this.history.splice(index, 1);
+        }
+      },
+    );
+    return ongoingPrediction;
+  }
+
+  /**
+   * Remove the last response of the model and generate a new one. The last message in the history
+   * must be an assistant message.
+   *
+   * @param opts - Options for the prediction. See {@link LLMChatResponseOpts}.
+   */
+  public regenerate(opts: LLMChatResponseOpts = {}): OngoingPrediction {
+    const stack = getCurrentStack(1);
+    this.assertNotPredicting("regenerate", stack);
+    const lastMessage = this.history.at(-1);
+    if (lastMessage?.role !== "assistant") {
+      throw makePrettyError(
+        text`
+          Cannot regenerate because the last message of the session is not a response of the model.
+        `,
+        stack,
+      );
+    }
+    this.history.pop();
+    const ongoingPrediction = this.respond(opts);
+    ongoingPrediction.then(
+      result => {
+        this.ongoingPrediction = null;
+        this.history.push({ role: "assistant", content: result.content });
+      },
+      () => {
+        this.ongoingPrediction = null;
+        this.history.push(lastMessage);
+      },
+    );
+    return ongoingPrediction;
+  }
+
+  /**
+   * Remove the last turn (the last user message and everything after it) from the history.
+   *
+   * @returns The removed messages. If there is no user message in the history, nothing is removed
+   * and an empty array is returned.
+   */
+  public undo(): LLMChatHistory {
+    this.assertNotPredicting("undo", getCurrentStack(1));
+    for (let index = this.history.length - 1; index >= 0; index--) {
+      if (this.history[index].role === "user") {
+        return this.history.splice(index);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Get the system prompt of the session, or `undefined` if the session does not have one.
+   */
+  public getSystemPrompt(): string | undefined {
+    const content = this.history.find(message => message.role === "system")?.content;
+    if (content === undefined || typeof content === "string") {
+      return content;
+    }
+    return content.map(part => (part.type === "text" ? part.text : "")).join("");
+  }
+
+  /**
+   * Replace the system prompt of the session. Pass `undefined` to remove the system prompt.
+   *
+   * @param systemPrompt - The new system prompt.
+   */
+  public setSystemPrompt(systemPrompt: string | undefined) {
+    const stack = getCurrentStack(1);
+    systemPrompt = this.validator.validateMethodParamOrThrow(
+      "session",
+      "setSystemPrompt",
+      "systemPrompt",
+      z.string().optional(),
+      systemPrompt,
+      stack,
+    );
+    this.assertNotPredicting("setSystemPrompt", stack);
+    this.replaceSystemPrompt(systemPrompt);
+  }
+
+  /**
+   * Get a copy of the history of the session.
+   */
+  public getHistory(): LLMChatHistory {
+    return this.history.map(message => ({ ...message }));
+  }
+
+  /**
+   * Serialize the session, so it can be saved and later restored with
+   * {@link LLMDynamicHandle#createChatSession}:
+   *
+   * ```typescript
+   * const saved = JSON.stringify(session);
+   * // Later...
+   * const restored = model.createChatSession(JSON.parse(saved));
+   * ```
+   *
+   * Images are embedded as base64, so the serialized session does not depend on the image files or
+   * buffers it was created with. Image files are read synchronously, and an image that is larger
+   * than 20 MiB or cannot be read makes this method throw.
+   */
+  public toJSON(): SerializedChatSession {
+    return { history: resolveChatHistoryImagesSync(this.history, getCurrentStack(1)) };
+  }
+}
@@ -0,0 +1,682 @@
+import { SimpleLogger, Validator } from "@lmstudio/lms-common";
+import { z } from "zod";
+import {
+  createStubLLMPort,
+  flushStub,
+  makeSuccessPacket,
+  makeTestDescriptor,
+  silentLogger,
+  type StubChannel,
+  type StubLLMPort,
+} from "../testing/createStubLLMPort";
+import { LLMDynamicHandle } from "./LLMDynamicHandle";
+import { tool } from "./Tool";
+
+function createHandle(stub: StubLLMPort) {
+  return new LLMDynamicHandle(
+    stub.port,
+    { type: "query", query: { identifier: "model-a" } },
+    new Validator(),
+  );
+}
+
+function createFallbackHandle(stub: StubLLMPort) {
+  return new LLMDynamicHandle(
+    stub.port,
+    { type: "query", query: { identifier: "model-a" } },
+    new Validator(),
+    new SimpleLogger("LLMModel", silentLogger),
+    [{ type: "query", query: { identifier: "model-b" } }],
+  );
+}
+
+const addTool = tool({
+  name: "add",
+  description: "Add two numbers",
+  parameters: { a: z.number(), b: z.number() },
+  implementation: ({ a, b }) => a + b,
+});
+
+function requestToolCall(channel: StubChannel, name: string, args: unknown, id = "call-1") {
+  channel.emit({ type: "toolCallRequest", toolCallRequest: { id, name, arguments: args } });
+  channel.emit(makeSuccessPacket(makeTestDescriptor("model-a"), "toolCalls"));
+}
+
+describe("act", () => {
+  test("should run rounds until the model stops requesting tool calls", async () => {
+    const stub = createStubLLMPort();
+    let round = 0;
+    stub.handleChannel("predict", channel => {
+      if (round++ === 0) {
+        requestToolCall(channel, "add", { a: 1, b: 2 });
+      } else {
+        channel.emit({ type: "fragment", fragment: "It is 3." });
+        channel.emit(makeSuccessPacket(makeTestDescriptor("model-a")));
+      }
+    });
+    const handle = createHandle(stub);
+    const result = await handle.act([{ role: "user", content: "1 + 2?" }], [addTool]);
+    expect(result.rounds).toBe(2);
+    expect(result.finalResult.content).toBe("It is 3.");
+    expect(result.history.map(message => message.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+    expect(result.history[2]).toMatchObject({ role: "tool", content: "3", toolCallId: "call-1" });
+  });
+
+  test("should report failing tool calls back to the model", async () => {
+    const stub = createStubLLMPort();
+    let round = 0;
+    stub.handleChannel("predict", channel => {
+      if (round++ === 0) {
+        requestToolCall(channel, "add", { a: "one" });
+      } else {
+        channel.emit(makeSuccessPacket(makeTestDescriptor("model-a")));
+      }
+    });
+    const handle = createHandle(stub);
+    const ongoingAct = handle.act([{ role: "user", content: "1 + 2?" }], [addTool]);
+    const events = [];
+    for await (const event of ongoingAct) {
+      events.push(event);
+    }
+    const result = await ongoingAct;
+    expect(events.map(event => event.type)).toEqual([
+      "toolCallRequested",
+      "toolCallError",
+      "finalMessage",
+    ]);
+    expect(result.history[2].content).toContain('Invalid arguments for tool \\"add\\"');
+  });
+
+  test("should fail once maxRounds is reached", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => requestToolCall(channel, "add", { a: 1, b: 2 }));
+    const handle = createHandle(stub);
+    await expect(
+      handle.act([{ role: "user", content: "1 + 2?" }], [addTool], { maxRounds: 2 }),
+    ).rejects.toThrow("after 2 rounds");
+    expect(stub.channels).toHaveLength(2);
+  });
+
+  test("should reject duplicate tool names", () => {
+    const handle = createHandle(createStubLLMPort());
+    expect(() => handle.act([], [addTool, addTool])).toThrow('Duplicate tool name "add"');
+  });
+
+  test("should stop the first round right away if the signal is already aborted", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => {
+      channel.emit({
+        type: "toolCallRequest",
+        toolCallRequest: { id: "call-1", name: "add", arguments: { a: 1, b: 2 } },
+      });
+      channel.emit(makeSuccessPacket(makeTestDescriptor("model-a"), "userStopped"));
+    });
+    const handle = createHandle(stub);
+    const controller = new AbortController();
+    controller.abort();
+    const result = await handle.act([{ role: "user", content: "1 + 2?" }], [addTool], {
+      signal: controller.signal,
+    });
+    expect(stub.channels).toHaveLength(1);
+    expect(stub.channels[0].sent).toEqual([{ type: "cancel" }]);
+    expect(result.rounds).toBe(1);
+  });
+
+  test("should not run the remaining tool calls once cancelled", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => {
+      for (const value of [1, 2]) {
+        channel.emit({
+          type: "toolCallRequest",
+          toolCallRequest: { id: `call-${value}`, name: "record", arguments: { value } },
+        });
+      }
+      channel.emit(makeSuccessPacket(makeTestDescriptor("model-a"), "toolCalls"));
+    });
+    const recorded: Array<number> = [];
+    const controller = new AbortController();
+    const recordTool = tool({
+      name: "record",
+      description: "Record a value",
+      parameters: { value: z.number() },
+      implementation: ({ value }) => {
+        recorded.push(value);
+        controller.abort();
+      },
+    });
+    const handle = createHandle(stub);
+    const result = await handle.act([{ role: "user", content: "Record 1 and 2." }], [recordTool], {
+      signal: controller.signal,
+    });
+    expect(recorded).toEqual([1]);
+    expect(stub.channels).toHaveLength(1);
+    expect(result.rounds).toBe(1);
+  });
+
+  test("should stop the ongoing round once the time limit is reached", async () => {
+    const stub = createStubLLMPort();
+    let round = 0;
+    stub.handleChannel("predict", channel => {
+      if (round++ === 0) {
+        requestToolCall(channel, "add", { a: 1, b: 2 });
+      } else {
+        channel.emit({ type: "fragment", fragment: "It is" });
+        setTimeout(() => {
+          channel.emit(makeSuccessPacket(makeTestDescriptor("model-a"), "userStopped"));
+        }, 50);
+      }
+    });
+    const handle = createHandle(stub);
+    const result = await handle.act([{ role: "user", content: "1 + 2?" }], [addTool], {
+      timeoutMs: 20,
+    });
+    expect(stub.channels).toHaveLength(2);
+    expect(stub.channels[1].sent).toEqual([{ type: "cancel" }]);
+    expect(result.rounds).toBe(2);
+    expect(result.finalResult.stats.stopReason).toBe("timeLimitReached");
+    expect(result.finalResult.content).toBe("It is");
+  });
+
+  test("should count the time spent in tool calls towards the time limit", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => requestToolCall(channel, "wait", {}));
+    const waitTool = tool({
+      name: "wait",
+      description: "Wait a bit",
+      parameters: {},
+      implementation: () => new Promise(resolve => setTimeout(resolve, 50)),
+    });
+    const handle = createHandle(stub);
+    const result = await handle.act([{ role: "user", content: "Wait." }], [waitTool], {
+      timeoutMs: 20,
+    });
+    expect(stub.channels).toHaveLength(1);
+    expect(result.rounds).toBe(1);
+  });
+});
+
+describe("onRebound", () => {
+  const llama = { sessionIdentifier: "session-1", descriptor: makeTestDescriptor("model-a") };
+  const reloaded = { ...llama, sessionIdentifier: "session-2" };
+
+  test("should not report the model the handle resolves to when subscribing", async () => {
+    const stub = createStubLLMPort();
+    stub.setSignal("modelInfo", llama);
+    const handle = createHandle(stub);
+    const listener = jest.fn();
+    const unsubscribe = handle.onRebound(listener);
+    await flushStub();
+    expect(listener).not.toHaveBeenCalled();
+    stub.setSignal("modelInfo", null);
+    stub.setSignal("modelInfo", reloaded);
+    expect(listener.mock.calls).toEqual([
+      [null, llama.descriptor],
+      [reloaded.descriptor, null],
+    ]);
+    unsubscribe();
+  });
+
+  test("should report the first change if the model is already up to date", async () => {
+    const stub = createStubLLMPort();
+    stub.setSignal("modelInfo", llama);
+    const handle = createHandle(stub);
+    const unsubscribeModel = handle.currentModel.subscribe(() => {});
+    await handle.currentModel.pull();
+    const listener = jest.fn();
+    const unsubscribe = handle.onRebound(listener);
+    stub.setSignal("modelInfo", reloaded);
+    expect(listener.mock.calls).toEqual([[reloaded.descriptor, llama.descriptor]]);
+    unsubscribe();
+    unsubscribeModel();
+  });
+});
+
+describe("waitUntilAvailable", () => {
+  test("should resolve once a model is loaded", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([]);
+    const handle = createHandle(stub);
+    const promise = handle.waitUntilAvailable();
+    await flushStub();
+    const descriptor = makeTestDescriptor("model-a");
+    stub.setSignal("modelInfo", { sessionIdentifier: "session-1", descriptor });
+    await expect(promise).resolves.toEqual(descriptor);
+  });
+
+  test("should reject once the time limit is reached", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([]);
+    const handle = createHandle(stub);
+    await expect(handle.waitUntilAvailable({ timeoutMs: 10 })).rejects.toThrow("Timed out");
+  });
+});
+
+describe("time limit", () => {
+  test("should not parse structured output cut off by the time limit", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => {
+      channel.emit({ type: "fragment", fragment: '{"title": "The Wi' });
+      setTimeout(() => {
+        channel.emit(makeSuccessPacket(makeTestDescriptor("model-a"), "userStopped"));
+      }, 50);
+    });
+    const handle = createHandle(stub);
+    const result = await handle.complete("Give me a book as JSON.", {
+      structured: z.object({ title: z.string() }),
+      timeoutMs: 10,
+    });
+    expect(result.stats.stopReason).toBe("timeLimitReached");
+    expect(result.content).toBe('{"title": "The Wi');
+    expect(result.parsed).toBeUndefined();
+  });
+});
+
+describe("structured", () => {
+  const bookSchema = z.object({ title: z.string(), year: z.number() });
+
+  function handleFragments(stub: StubLLMPort, fragments: Array<string>) {
+    stub.handleChannel("predict", channel => {
+      for (const fragment of fragments) {
+        channel.emit({ type: "fragment", fragment });
+      }
+      channel.emit(makeSuccessPacket(makeTestDescriptor("model-a")));
+    });
+  }
+
+  test("should send the schema and parse the output", async () => {
+    const stub = createStubLLMPort();
+    handleFragments(stub, ['{"title": "Dune", ', '"year": 1965}']);
+    const handle = createHandle(stub);
+    const result = await handle.complete("Give me a book as JSON.", { structured: bookSchema });
+    expect(stub.channels[0].param.structured).toMatchObject({
+      type: "json",
+      jsonSchema: { type: "object", required: ["title", "year"] },
+    });
+    expect(result.parsed).toEqual({ title: "Dune", year: 1965 });
+  });
+
+  test("should reject if the output is not valid JSON", async () => {
+    const stub = createStubLLMPort();
+    handleFragments(stub, ["Dune, 1965"]);
+    const handle = createHandle(stub);
+    await expect(
+      handle.respond([{ role: "user", content: "Give me a book as JSON." }], {
+        structured: bookSchema,
+      }),
+    ).rejects.toThrow("did not generate valid JSON");
+  });
+
+  test("should reject if the output does not match the schema", async () => {
+    const stub = createStubLLMPort();
+    handleFragments(stub, ['{"title": "Dune", "year": "1965"}']);
+    const handle = createHandle(stub);
+    await expect(
+      handle.complete("Give me a book as JSON.", { structured: bookSchema }),
+    ).rejects.toThrow("does not match the provided schema");
+  });
+});
+
+describe("signal", () => {
+  const bookSchema = z.object({ title: z.string() });
+
+  /**
+   * Makes the stub start generating a book as JSON, and stop with the stop reason `userStopped`
+   * once the client cancels the prediction.
+   */
+  async function abortMidPrediction(stub: StubLLMPort, controller: AbortController) {
+    stub.handleChannel("predict", channel => {
+      channel.emit({ type: "fragment", fragment: '{"title": "The Wi' });
+    });
+    await flushStub();
+    controller.abort();
+    await flushStub();
+    const [channel] = stub.channels;
+    expect(channel.sent).toEqual([{ type: "cancel" }]);
+    channel.emit(makeSuccessPacket(makeTestDescriptor("model-a"), "userStopped"));
+  }
+
+  test("should stop complete with the content generated so far", async () => {
+    const stub = createStubLLMPort();
+    const controller = new AbortController();
+    const prediction = createHandle(stub).complete("Give me a book.", {
+      signal: controller.signal,
+    });
+    await abortMidPrediction(stub, controller);
+    const result = await prediction;
+    expect(result.stats.stopReason).toBe("userStopped");
+    expect(result.content).toBe('{"title": "The Wi');
+  });
+
+  test("should not parse the structured output of a stopped complete", async () => {
+    const stub = createStubLLMPort();
+    const controller = new AbortController();
+    const prediction = createHandle(stub).complete("Give me a book as JSON.", {
+      structured: bookSchema,
+      signal: controller.signal,
+    });
+    await abortMidPrediction(stub, controller);
+    const result = await prediction;
+    expect(result.stats.stopReason).toBe("userStopped");
+    expect(result.parsed).toBeUndefined();
+  });
+
+  test("should stop respond with the content generated so far", async () => {
+    const stub = createStubLLMPort();
+    const controller = new AbortController();
+    const prediction = createHandle(stub).respond([{ role: "user", content: "Give me a book." }], {
+      signal: controller.signal,
+    });
+    await abortMidPrediction(stub, controller);
+    const result = await prediction;
+    expect(result.stats.stopReason).toBe("userStopped");
+    expect(result.content).toBe('{"title": "The Wi');
+  });
+
+  test("should not parse the structured output of a stopped respond", async () => {
+    const stub = createStubLLMPort();
+    const controller = new AbortController();
+    const prediction = createHandle(stub).respond(
+      [{ role: "user", content: "Give me a book as JSON." }],
+      { structured: bookSchema, signal: controller.signal },
+    );
+    await abortMidPrediction(stub, controller);
+    const result = await prediction;
+    expect(result.stats.stopReason).toBe("userStopped");
+    expect(result.parsed).toBeUndefined();
+  });
+});
+
+describe("fallback", () => {
+  test("should retry with the next model if the prediction fails before any output", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => {
+      if (channel.param.modelSpecifier.query.identifier === "model-a") {
+        channel.fail(new Error("No model found"));
+      } else {
+        channel.emit({ type: "fragment", fragment: "Hello" });
+        channel.emit(makeSuccessPacket(makeTestDescriptor("model-b")));
+      }
+    });
+    const handle = createFallbackHandle(stub);
+    const result = await handle.complete("Hi");
+    expect(stub.channels).toHaveLength(2);
+    expect(result.content).toBe("Hello");
+    expect(result.modelInfo.identifier).toBe("model-b");
+  });
+
+  test("should not retry once the model produced output", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => {
+      channel.emit({ type: "fragment", fragment: "Hel" });
+      channel.fail(new Error("Model unloaded"));
+    });
+    const handle = createFallbackHandle(stub);
+    await expect(handle.complete("Hi")).rejects.toThrow("Model unloaded");
+    expect(stub.channels).toHaveLength(1);
+  });
+
+  test("should use the first loaded model for other methods", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([
+      { sessionIdentifier: "session-b", descriptor: makeTestDescriptor("model-b") },
+    ]);
+    stub.handleRpc("tokenize", () => ({ tokens: [1, 2] }));
+    const handle = createFallbackHandle(stub);
+    await expect(handle.tokenize("Hi")).resolves.toEqual([1, 2]);
+    expect(stub.rpcCalls.at(-1)?.param.specifier).toEqual({
+      type: "sessionIdentifier",
+      sessionIdentifier: "session-b",
+    });
+  });
+});
+
+describe("completeBatch", () => {
+  /**
+   * Makes the stub answer each prompt with its uppercase version after a delay, and fail the prompt
+   * "fail". Returns a function that gives the maximum number of predictions that ran at once.
+   */
+  function handleBatch(stub: StubLLMPort) {
+    let running = 0;
+    let maxRunning = 0;
+    stub.handleChannel("predict", channel => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      const prompt: string = channel.param.history[0].content;
+      setTimeout(() => {
+        running--;
+        if (prompt === "fail") {
+          channel.fail(new Error("Prediction failed"));
+          return;
+        }
+        channel.emit({ type: "fragment", fragment: prompt.toUpperCase() });
+        channel.emit(makeSuccessPacket(makeTestDescriptor("model-a")));
+      }, 5 * prompt.length);
+    });
+    return () => maxRunning;
+  }
+
+  test("should return the results in the order of the prompts", async () => {
+    const stub = createStubLLMPort();
+    const getMaxRunning = handleBatch(stub);
+    const handle = createHandle(stub);
+    const { results } = await handle.completeBatch(["ccc", "a", "bb", "dddd"], { concurrency: 2 });
+    expect(results.map(result => (result instanceof Error ? result : result.content))).toEqual([
+      "CCC",
+      "A",
+      "BB",
+      "DDDD",
+    ]);
+    expect(getMaxRunning()).toBe(2);
+  });
+
+  test("should not stop the batch when a prediction fails", async () => {
+    const stub = createStubLLMPort();
+    handleBatch(stub);
+    const handle = createHandle(stub);
+    const { results, stats } = await handle.completeBatch(["a", "fail", "b"]);
+    expect(results[1]).toBeInstanceOf(Error);
+    expect(results.filter(result => !(result instanceof Error))).toHaveLength(2);
+    expect(stats.failedCount).toBe(1);
+  });
+
+  test("should fail the predictions that have not started when cancelled", async () => {
+    const stub = createStubLLMPort();
+    handleBatch(stub);
+    const handle = createHandle(stub);
+    const batch = handle.completeBatch(["a", "b", "c"], { concurrency: 1 });
+    await flushStub();
+    expect(stub.channels).toHaveLength(1);
+    batch.cancel();
+    const { results } = await batch;
+    expect(stub.channels).toHaveLength(1);
+    expect(stub.channels[0].sent).toEqual([{ type: "cancel" }]);
+    expect(results.slice(1)).toEqual([
+      new Error("The batch prediction was cancelled before this prediction."),
+      new Error("The batch prediction was cancelled before this prediction."),
+    ]);
+  });
+
+  test("should cancel the batch when the signal is aborted", async () => {
+    const stub = createStubLLMPort();
+    handleBatch(stub);
+    const handle = createHandle(stub);
+    const controller = new AbortController();
+    const batch = handle.respondBatch(
+      [[{ role: "user", content: "a" }], [{ role: "user", content: "b" }]],
+      { concurrency: 1, signal: controller.signal },
+    );
+    await flushStub();
+    controller.abort();
+    const { results, stats } = await batch;
+    expect(stub.channels[0].sent).toEqual([{ type: "cancel" }]);
+    expect(results[1]).toEqual(
+      new Error("The batch prediction was cancelled before this prediction."),
+    );
+    expect(stats.failedCount).toBe(1);
+  });
+});
+
+describe("countTokens and detokenize", () => {
+  const specifier = { type: "query", query: { identifier: "model-a" } };
+
+  test("should count the tokens of a chat history with the prompt template applied", async () => {
+    const stub = createStubLLMPort();
+    stub.handleRpc("countTokens", () => ({ tokensCount: 42 }));
+    const handle = createHandle(stub);
+    const history = [
+      { role: "system" as const, content: "You are a helpful assistant." },
+      { role: "user" as const, content: "Hello!" },
+    ];
+    await expect(handle.countTokens(history)).resolves.toBe(42);
+    expect(stub.rpcCalls).toEqual([
+      { endpoint: "countTokens", param: { specifier, input: { type: "chatHistory", history } } },
+    ]);
+  });
+
+  test("should count the tokens of a string as is", async () => {
+    const stub = createStubLLMPort();
+    stub.handleRpc("countTokens", () => ({ tokensCount: 2 }));
+    const handle = createHandle(stub);
+    await expect(handle.countTokens("Hello!")).resolves.toBe(2);
+    expect(stub.rpcCalls[0].param.input).toEqual({ type: "text", text: "Hello!" });
+  });
+
+  test("should detokenize the tokens", async () => {
+    const stub = createStubLLMPort();
+    stub.handleRpc("detokenize", () => ({ outputString: "Hello!" }));
+    const handle = createHandle(stub);
+    await expect(handle.detokenize([9906, 0])).resolves.toBe("Hello!");
+    expect(stub.rpcCalls).toEqual([
+      { endpoint: "detokenize", param: { specifier, tokens: [9906, 0] } },
+    ]);
+  });
+
+  test("should reject tokens that are not integers", async () => {
+    const handle = createHandle(createStubLLMPort());
+    await expect(handle.detokenize([1.5])).rejects.toThrow("detokenize");
+  });
+});
+
+describe("saveState and restoreState", () => {
+  /**
+   * Makes the stub keep saved states per model, like LM Studio does.
+   */
+  function handleStates(stub: StubLLMPort) {
+    const states = new Map<
+      string,
+      { name: string; tokensCount: number; processingTimeSec: number }
+    >();
+    const key = (param: any) => `${param.specifier.query.identifier}/${param.name}`;
+    stub.handleRpc("saveState", param => {
+      const info = { name: param.name, tokensCount: 12, processingTimeSec: 0.5 };
+      states.set(key(param), info);
+      return info;
+    });
+    stub.handleRpc("restoreState", param => {
+      const info = states.get(key(param));
+      if (info === undefined) {
+        throw new Error(`No saved state named "${param.name}" for this model`);
+      }
+      return info;
+    });
+  }
+
+  test("should restore a saved state", async () => {
+    const stub = createStubLLMPort();
+    handleStates(stub);
+    const handle = createHandle(stub);
+    const system = { role: "system" as const, content: "Answer questions about this document." };
+    const saved = await handle.saveState("document", [system]);
+    await expect(handle.restoreState("document")).resolves.toEqual(saved);
+    expect(saved).toEqual({ name: "document", tokensCount: 12, processingTimeSec: 0.5 });
+    expect(stub.rpcCalls.map(({ endpoint, param }) => [endpoint, param])).toEqual([
+      [
+        "saveState",
+        {
+          specifier: { type: "query", query: { identifier: "model-a" } },
+          name: "document",
+          input: { type: "chatHistory", history: [system] },
+        },
+      ],
+      [
+        "restoreState",
+        { specifier: { type: "query", query: { identifier: "model-a" } }, name: "document" },
+      ],
+    ]);
+  });
+
+  test("should fail to restore a state saved from a different model", async () => {
+    const stub = createStubLLMPort();
+    handleStates(stub);
+    await createHandle(stub).saveState("document", "A long document.");
+    const otherHandle = new LLMDynamicHandle(
+      stub.port,
+      { type: "query", query: { identifier: "model-b" } },
+      new Validator(),
+    );
+    await expect(otherHandle.restoreState("document")).rejects.toThrow("No saved state");
+  });
+});
+
+describe("getPromptTemplate and applyPromptTemplate", () => {
+  const specifier = { type: "query", query: { identifier: "model-a" } };
+
+  test("should return the prompt template of the model", async () => {
+    const stub = createStubLLMPort();
+    const template = {
+      type: "jinja",
+      template: "{% for message in messages %}{{ message.content }}{% endfor %}",
+      bosToken: "<s>",
+      eosToken: "</s>",
+    };
+    stub.handleRpc("getPromptTemplate", () => template);
+    const handle = createHandle(stub);
+    await expect(handle.getPromptTemplate()).resolves.toEqual(template);
+    expect(stub.rpcCalls).toEqual([{ endpoint: "getPromptTemplate", param: { specifier } }]);
+  });
+
+  test("should apply the prompt template with the options", async () => {
+    const stub = createStubLLMPort();
+    stub.handleRpc("applyPromptTemplate", () => ({ formatted: "<|user|>Hello!<|end|>" }));
+    const handle = createHandle(stub);
+    const history = [{ role: "user" as const, content: "Hello!" }];
+    await expect(handle.applyPromptTemplate(history, { omitBosToken: true })).resolves.toBe(
+      "<|user|>Hello!<|end|>",
+    );
+    expect(stub.rpcCalls).toEqual([
+      {
+        endpoint: "applyPromptTemplate",
+        param: { specifier, history, opts: { omitBosToken: true } },
+      },
+    ]);
+  });
+
+  test("should send the images of the history as base64", async () => {
+    const stub = createStubLLMPort();
+    stub.handleRpc("applyPromptTemplate", () => ({ formatted: "<|user|><image>What is it?" }));
+    const handle = createHandle(stub);
+    await handle.applyPromptTemplate([
+      {
+        role: "user",
+        content: [
+          { type: "image", buffer: new Uint8Array([1, 2, 3]), mimeType: "image/png" },
+          { type: "text", text: "What is it?" },
+        ],
+      },
+    ]);
+    expect(stub.rpcCalls[0].param.history).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "image", base64: "AQID", mimeType: "image/png" },
+          { type: "text", text: "What is it?" },
+        ],
+      },
+    ]);
+  });
+});
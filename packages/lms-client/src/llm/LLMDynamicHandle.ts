@@ -1,54 +1,271 @@
-import { BufferedEvent, getCurrentStack, SimpleLogger, type Validator } from "@lmstudio/lms-common";
+import {
+  BufferedEvent,
+  getCurrentStack,
+  LazySignal,
+  makePrettyError,
+  makePromise,
+  SimpleLogger,
+  text,
+  type NotAvailable,
+  type Validator,
+  WaitQueue,
+} from "@lmstudio/lms-common";
 import { type LLMPort } from "@lmstudio/lms-llm-backend-interface";
 import {
+  llmApplyPromptTemplateOptsSchema,
   llmChatHistorySchema,
   llmChatPredictionConfigSchema,
   llmCompletionPredictionConfigSchema,
-  llmStructuredPredictionSettingSchema,
+  llmLogprobsSettingSchema,
+  reasonableKeyStringSchema,
+  type LLMApplyPromptTemplateOpts,
   type LLMChatHistory,
   type LLMChatPredictionConfig,
   type LLMDescriptor,
+  type LLMLoadModelConfig,
+  type LLMLogprobsSetting,
   type LLMModelSpecifier,
   type LLMPredictionStats,
+  type LLMPromptTemplate,
+  type LLMSavedStateInfo,
   type LLMStructuredPredictionSetting,
+  type LLMTokenLogprob,
+  type LLMToolCallRequest,
+  type LLMToolDefinition,
 } from "@lmstudio/lms-shared-types";
 import {
   type LLMCompletionPredictionConfig,
   type LLMFullPredictionConfig,
 } from "@lmstudio/lms-shared-types/dist/llm/LLMPredictionConfig";
-import { z } from "zod";
-import { type LLMNamespace } from "./LLMNamespace";
+import { z, ZodType } from "zod";
+import { ActResult } from "./ActResult";
+import { aggregatePredictionStats, BatchPredictionResult } from "./BatchPredictionResult";
+import { ChatSession, chatSessionOptsSchema, type ChatSessionOpts } from "./ChatSession";
+import { OngoingAct } from "./OngoingAct";
+import { OngoingBatchPrediction } from "./OngoingBatchPrediction";
 import { OngoingPrediction } from "./OngoingPrediction";
-import { type PredictionResult } from "./PredictionResult";
+import { PredictionResult } from "./PredictionResult";
+import { resolveChatHistoryImages } from "./resolveChatHistoryImages";
+import {
+  llmStructuredPredictionOptSchema,
+  parseStructuredOutput,
+  toStructuredPredictionSetting,
+  type LLMStructuredPredictionOpt,
+} from "./structuredOutput";
+import { startTimeLimit, timeLimitOptsShape, type TimeLimitOpts } from "../timeLimit";
+import { toolSchema, toolToLLMToolDefinition, type Tool } from "./Tool";
 
-/** @public */
-export interface LLMCompletionOpts extends LLMCompletionPredictionConfig {
+/**
+ * Options for {@link LLMDynamicHandle#complete}.
+ *
+ * The prediction can be time limited with `timeoutMs` or `deadline` (see {@link TimeLimitOpts}).
+ * Once the time limit is reached, the prediction is stopped and resolves with the content generated
+ * so far, and with the stop reason `timeLimitReached`.
+ *
+ * @public
+ */
+export interface LLMCompletionOpts<TStructuredOutput = undefined>
+  extends LLMCompletionPredictionConfig,
+    TimeLimitOpts {
   /**
    * Structured output settings for the prediction. See {@link LLMStructuredPredictionSetting} for a
    * detailed explanation of what structured prediction is and how to use it.
+   *
+   * Alternatively, a zod schema can be passed. In that case, it is converted to JSON schema, and
+   * the output of the model is parsed and validated against it. The result is available as
+   * {@link PredictionResult#parsed}.
+   */
+  structured?: LLMStructuredPredictionOpt<TStructuredOutput>;
+  /**
+   * If set, the log probabilities of the predicted tokens, and of the `topK` most likely
+   * alternatives at each position, are reported. They are available via
+   * {@link OngoingPrediction#onTokens} while the prediction is ongoing, and in
+   * {@link PredictionResult#logprobs} once it finishes.
    */
-  structured?: LLMStructuredPredictionSetting;
+  logprobs?: LLMLogprobsSetting;
+  /**
+   * An `AbortSignal` to stop the prediction. When the signal is aborted, the prediction is stopped
+   * the same way as {@link OngoingPrediction#cancel}: it resolves with the content generated so
+   * far, and with the stop reason `userStopped`. If the signal is already aborted, the prediction is
+   * stopped right away.
+   */
+  signal?: AbortSignal;
 }
 
 const completeOptsSchema = z.object({
   ...llmCompletionPredictionConfigSchema.shape,
-  structured: llmStructuredPredictionSettingSchema.optional(),
+  structured: llmStructuredPredictionOptSchema.optional(),
+  logprobs: llmLogprobsSettingSchema.optional(),
+  signal: z.instanceof(AbortSignal).optional(),
+  ...timeLimitOptsShape,
 });
 
-/** @public */
-export interface LLMChatResponseOpts extends LLMChatPredictionConfig {
+/**
+ * Options for {@link LLMDynamicHandle#respond}.
+ *
+ * The time limit (`timeoutMs` or `deadline`) behaves the same as in {@link LLMCompletionOpts}.
+ *
+ * @public
+ */
+export interface LLMChatResponseOpts<TStructuredOutput = undefined>
+  extends LLMChatPredictionConfig,
+    TimeLimitOpts {
   /**
    * Structured output settings for the prediction. See {@link LLMStructuredPredictionSetting} for a
    * detailed explanation of what structured prediction is and how to use it.
+   *
+   * Alternatively, a zod schema can be passed. In that case, it is converted to JSON schema, and
+   * the output of the model is parsed and validated against it. The result is available as
+   * {@link PredictionResult#parsed}.
+   */
+  structured?: LLMStructuredPredictionOpt<TStructuredOutput>;
+  /**
+   * If set, the log probabilities of the predicted tokens, and of the `topK` most likely
+   * alternatives at each position, are reported. They are available via
+   * {@link OngoingPrediction#onTokens} while the prediction is ongoing, and in
+   * {@link PredictionResult#logprobs} once it finishes.
    */
-  structured?: LLMStructuredPredictionSetting;
+  logprobs?: LLMLogprobsSetting;
+  /**
+   * An `AbortSignal` to stop the prediction. Behaves the same as
+   * {@link LLMCompletionOpts#signal}.
+   */
+  signal?: AbortSignal;
 }
 
 const respondOptsSchema = z.object({
   ...llmChatPredictionConfigSchema.shape,
-  structured: llmStructuredPredictionSettingSchema.optional(),
+  structured: llmStructuredPredictionOptSchema.optional(),
+  logprobs: llmLogprobsSettingSchema.optional(),
+  signal: z.instanceof(AbortSignal).optional(),
+  ...timeLimitOptsShape,
+});
+
+/** @public */
+export interface LLMCompletionBatchOpts<TStructuredOutput = undefined>
+  extends LLMCompletionOpts<TStructuredOutput> {
+  /**
+   * The maximum number of predictions that run at the same time. Defaults to 4.
+   */
+  concurrency?: number;
+  /**
+   * An `AbortSignal` to stop the whole batch, the same way as
+   * {@link OngoingBatchPrediction#cancel}: the ongoing predictions are stopped with the stop reason
+   * `userStopped`, and the predictions that have not started yet fail without being started.
+   */
+  signal?: AbortSignal;
+}
+
+const completeBatchOptsSchema = completeOptsSchema.extend({
+  concurrency: z.number().int().min(1).optional(),
+});
+
+/** @public */
+export interface LLMChatResponseBatchOpts<TStructuredOutput = undefined>
+  extends LLMChatResponseOpts<TStructuredOutput> {
+  /**
+   * The maximum number of predictions that run at the same time. Defaults to 4.
+   */
+  concurrency?: number;
+  /**
+   * An `AbortSignal` to stop the whole batch, the same way as
+   * {@link OngoingBatchPrediction#cancel}: the ongoing predictions are stopped with the stop reason
+   * `userStopped`, and the predictions that have not started yet fail without being started.
+   */
+  signal?: AbortSignal;
+}
+
+const respondBatchOptsSchema = respondOptsSchema.extend({
+  concurrency: z.number().int().min(1).optional(),
 });
 
+/**
+ * Options for {@link LLMDynamicHandle#act}.
+ *
+ * The time limit (`timeoutMs` or `deadline`, see {@link TimeLimitOpts}) applies to the whole act
+ * call, across all rounds and tool calls. Once it is reached, the act call stops the same way as
+ * {@link OngoingAct#cancel}, except that an ongoing prediction round is stopped with the stop reason
+ * `timeLimitReached`.
+ *
+ * @public
+ */
+export interface LLMActOpts extends LLMChatPredictionConfig, TimeLimitOpts {
+  /**
+   * The maximum number of prediction rounds. Each round either ends with the model requesting tool
+   * calls or with the final answer. If the model is still requesting tool calls after this many
+   * rounds, the act call fails.
+   *
+   * Defaults to 10.
+   */
+  maxRounds?: number;
+  /**
+   * An `AbortSignal` to stop the act call. When the signal is aborted, the current prediction round
+   * is stopped with the stop reason `userStopped`, and no further rounds are started, the same way
+   * as {@link OngoingAct#cancel}.
+   */
+  signal?: AbortSignal;
+}
+
+const actOptsSchema = z.object({
+  ...llmChatPredictionConfigSchema.shape,
+  maxRounds: z.number().int().min(1).optional(),
+  signal: z.instanceof(AbortSignal).optional(),
+  ...timeLimitOptsShape,
+});
+
+/**
+ * Calls `cancel` when the signal is aborted (or right away if it already is). Returns a function
+ * that stops listening to the signal, which should be called once the operation finishes.
+ */
+function linkAbortSignal(signal: AbortSignal | undefined, cancel: () => void) {
+  if (signal === undefined) {
+    return () => {};
+  }
+  if (signal.aborted) {
+    cancel();
+    return () => {};
+  }
+  signal.addEventListener("abort", cancel, { once: true });
+  return () => signal.removeEventListener("abort", cancel);
+}
+
+/**
+ * Options for {@link LLMDynamicHandle#waitUntilAvailable}. Once the time limit (see
+ * {@link TimeLimitOpts}) is reached, the returned promise rejects.
+ *
+ * @public
+ */
+export interface LLMWaitUntilAvailableOpts extends TimeLimitOpts {
+  /**
+   * An `AbortSignal` to stop waiting. Once aborted, the returned promise rejects with the reason of
+   * the signal.
+   */
+  signal?: AbortSignal;
+}
+const waitUntilAvailableOptsSchema = z.object({
+  signal: z.instanceof(AbortSignal).optional(),
+  ...timeLimitOptsShape,
+});
+
+/**
+ * The loaded model a handle currently resolves to. The session identifier changes whenever a model
+ * is loaded, so it also tells apart two loads of the same model with the same identifier.
+ */
+interface LLMBinding {
+  sessionIdentifier: string;
+  descriptor: LLMDescriptor;
+}
+
+/**
+ * Turns the return value of a tool implementation into the content of a `tool` message.
+ */
+function stringifyToolResult(result: unknown) {
+  if (typeof result === "string") {
+    return result;
+  }
+  return JSON.stringify(result) ?? "null";
+}
+
 /**
  * This represents a set of requirements for a model. It is not tied to a specific model, but rather
  * to a set of requirements that a model must satisfy.
@@ -61,6 +278,19 @@ const respondOptsSchema = z.object({
  * @public
  */
 export class LLMDynamicHandle {
+  /** @internal */
+  private readonly binding: LazySignal<LLMBinding | null | NotAvailable>;
+  /**
+   * The model this handle currently resolves to, or `null` if no loaded model satisfies the
+   * requirements of the handle. If the handle was created from a list of queries, this is the first
+   * model in the list that is currently loaded.
+   *
+   * The signal only receives updates from LM Studio while it has at least one subscriber. Until the
+   * first update arrives, its value is {@link LazySignal.NOT_AVAILABLE}. See also
+   * {@link LLMDynamicHandle#onRebound}.
+   */
+  public readonly currentModel: LazySignal<LLMDescriptor | null | NotAvailable>;
+
   /**
    * Don't construct this on your own. Use {@link LLMNamespace#get} or {@link LLMNamespace#load}
    * instead.
@@ -76,38 +306,187 @@ export class LLMDynamicHandle {
     private readonly validator: Validator,
     /** @internal */
     private readonly logger: SimpleLogger = new SimpleLogger(`LLMModel`),
-  ) {}
+    /**
+     * Specifiers to fall back to, in order, when a prediction with {@link LLMDynamicHandle#specifier}
+     * fails.
+     *
+     * @internal
+     */
+    private readonly fallbackSpecifiers: Array<LLMModelSpecifier> = [],
+  ) {
+    const bindingSignals = [specifier, ...fallbackSpecifiers].map(specifier =>
+      llmPort.createSignal("modelInfo", { specifier }),
+    );
+    this.binding = LazySignal.deriveFrom(
+      bindingSignals,
+      (...bindings) => bindings.find(binding => binding !== null) ?? null,
+      (a, b) => a?.sessionIdentifier === b?.sessionIdentifier,
+    );
+    this.currentModel = LazySignal.deriveFrom(
+      [this.binding],
+      binding => binding?.descriptor ?? null,
+    );
+  }
 
-  /** @internal */
+  /**
+   * Calls the listener whenever the model this handle resolves to changes: when the model is
+   * unloaded (in which case the listener is called with `null`), when a model satisfying the
+   * requirements is loaded, or when the handle starts resolving to a different model. Use it to
+   * reset state that depends on the model, such as caches or conversations.
+   *
+   * The model the handle resolves to when this method is called is not reported.
+   *
+   * @param listener - Called with the model the handle now resolves to, and the one it resolved to
+   * before.
+   * @returns A function that stops calling the listener.
+   */
+  public onRebound(
+    listener: (model: LLMDescriptor | null, previousModel: LLMDescriptor | null) => void,
+  ): () => void {
+    // If the binding is already up to date (because something else subscribed to it), the next
+    // update is a real change. Otherwise, the first update only tells what the handle resolves to.
+    let previous: LLMBinding | null | NotAvailable = this.binding.isStale()
+      ? LazySignal.NOT_AVAILABLE
+      : this.binding.get();
+    return this.binding.subscribe(binding => {
+      if (binding === LazySignal.NOT_AVAILABLE) {
+        return;
+      }
+      if (previous !== LazySignal.NOT_AVAILABLE) {
+        listener(binding?.descriptor ?? null, previous?.descriptor ?? null);
+      }
+      previous = binding;
+    });
+  }
+
+  /**
+   * Waits until a loaded model satisfies the requirements of this handle, and returns its
+   * information. Resolves right away if one is already loaded.
+   *
+   * ```typescript
+   * const model = client.llm.createDynamicHandle("my-model");
+   * await model.waitUntilAvailable({ timeoutMs: 60_000 });
+   * ```
+   *
+   * @param opts - Options for waiting. See {@link LLMWaitUntilAvailableOpts}.
+   */
+  public waitUntilAvailable(opts: LLMWaitUntilAvailableOpts = {}): Promise<LLMDescriptor> {
+    const stack = getCurrentStack(1);
+    opts = this.validator.validateMethodParamOrThrow(
+      "model",
+      "waitUntilAvailable",
+      "opts",
+      waitUntilAvailableOptsSchema,
+      opts,
+      stack,
+    );
+    const { signal, timeoutMs, deadline } = opts;
+    const { promise, resolve, reject } = makePromise<LLMDescriptor>();
+    const unsubscribe = this.currentModel.subscribe(model => {
+      if (model !== LazySignal.NOT_AVAILABLE && model !== null) {
+        resolve(model);
+      }
+    });
+    // The signal only reports changes, so the model that is already loaded is checked separately.
+    this.getModelInfo().then(model => {
+      if (model !== undefined) {
+        resolve(model);
+      }
+    }, reject);
+    const unlinkSignal = linkAbortSignal(signal, () => reject(signal?.reason));
+    const stopTimeLimit = startTimeLimit({ timeoutMs, deadline }, () => {
+      reject(
+        makePrettyError(
+          text`
+            Timed out waiting for a model to become available (set with the "timeoutMs" or
+            "deadline" option).
+          `,
+          stack,
+        ),
+      );
+    });
+    const cleanUp = () => {
+      unsubscribe();
+      unlinkSignal();
+      stopTimeLimit();
+    };
+    promise.then(cleanUp, cleanUp);
+    return promise;
+  }
+
+  /**
+   * Runs a prediction. If there are fallback specifiers and the prediction fails before the model
+   * produced any output (for example, because no model matches the query, or the model was
+   * unloaded), the prediction is retried with the next specifier. Once a fragment has been
+   * produced, errors are no longer retried, as the fragments have already been surfaced.
+   *
+   * @internal
+   */
   private predict(
-    modelSpecifier: LLMModelSpecifier,
     history: LLMChatHistory,
     config: LLMFullPredictionConfig,
     structured: LLMStructuredPredictionSetting | undefined,
+    tools: Array<LLMToolDefinition> | undefined,
+    logprobs: LLMLogprobsSetting | undefined,
     cancelEvent: BufferedEvent<void>,
-    onFragment: (fragment: string) => void,
+    onFragment: (fragment: string, tokens?: Array<LLMTokenLogprob>) => void,
     onFinished: (stats: LLMPredictionStats, modelInfo: LLMDescriptor) => void,
     onError: (error: Error) => void,
+    onToolCallRequest?: (toolCallRequest: LLMToolCallRequest) => void,
   ) {
-    const channel = this.llmPort.createChannel(
-      "predict",
-      { modelSpecifier, history, config, structured },
-      message => {
-        switch (message.type) {
-          case "fragment":
-            onFragment(message.fragment);
-            break;
-          case "success":
-            onFinished(message.stats, message.modelInfo);
-            break;
-        }
-      },
-      { stack: getCurrentStack(2) },
-    );
+    const stack = getCurrentStack(2);
+    const modelSpecifiers = [this.specifier, ...this.fallbackSpecifiers];
+    let cancelled = false;
+    let producedOutput = false;
+    let currentChannel: { send: (message: { type: "cancel" }) => void } | null = null;
     cancelEvent.subscribeOnce(() => {
-      channel.send({ type: "cancel" });
+      cancelled = true;
+      currentChannel?.send({ type: "cancel" });
     });
-    channel.onError.subscribeOnce(onError);
+    // Images in the history need to be read/encoded before they can be sent. If the prediction is
+    // cancelled in the meantime, the cancellation is sent once the channel is open.
+    resolveChatHistoryImages(history, stack).then(resolvedHistory => {
+      const attempt = (index: number) => {
+        const modelSpecifier = modelSpecifiers[index];
+        const channel = this.llmPort.createChannel(
+          "predict",
+          { modelSpecifier, history: resolvedHistory, config, structured, tools, logprobs },
+          message => {
+            switch (message.type) {
+              case "fragment":
+                producedOutput = true;
+                onFragment(message.fragment, message.tokens);
+                break;
+              case "toolCallRequest":
+                producedOutput = true;
+                onToolCallRequest?.(message.toolCallRequest);
+                break;
+              case "success":
+                onFinished(message.stats, message.modelInfo);
+                break;
+            }
+          },
+          { stack },
+        );
+        currentChannel = channel;
+        if (cancelled) {
+          channel.send({ type: "cancel" });
+        }
+        channel.onError.subscribeOnce(error => {
+          if (cancelled || producedOutput || index + 1 >= modelSpecifiers.length) {
+            onError(error);
+            return;
+          }
+          this.logger.info(
+            `Prediction with model ${index + 1} of ${modelSpecifiers.length} failed, falling ` +
+              "back to the next model:",
+            error.message,
+          );
+          attempt(index + 1);
+        });
+      };
+      attempt(0);
+    }, onError);
   }
 
   /**
@@ -152,10 +531,21 @@ export class LLMDynamicHandle {
    * console.log(result.stats);
    * ```
    *
+   * To get typed output, pass a zod schema as the `structured` option:
+   *
+   * ```typescript
+   * const schema = z.object({ title: z.string(), year: z.number() });
+   * const result = await model.complete("...", { structured: schema });
+   * console.log(result.parsed?.title);
+   * ```
+   *
    * @param prompt - The prompt to use for prediction.
    * @param opts - Options for the prediction.
    */
-  public complete(prompt: string, opts: LLMCompletionOpts = {}) {
+  public complete<TStructuredOutput = undefined>(
+    prompt: string,
+    opts: LLMCompletionOpts<TStructuredOutput> = {},
+  ): OngoingPrediction<TStructuredOutput> {
     const stack = getCurrentStack(1);
     [prompt, opts] = this.validator.validateMethodParamsOrThrow(
       "model",
@@ -165,11 +555,21 @@ export class LLMDynamicHandle {
       [prompt, opts],
       stack,
     );
-    const { structured, ...config } = opts;
+    const { structured, logprobs, signal, timeoutMs, deadline, ...config } = opts;
     const [cancelEvent, emitCancelEvent] = BufferedEvent.create<void>();
-    const { ongoingPrediction, finished, failed, push } = OngoingPrediction.create(emitCancelEvent);
+    const { ongoingPrediction, finished, failed, push } = OngoingPrediction.create(
+      emitCancelEvent,
+      structured instanceof ZodType
+        ? (content, stats) => parseStructuredOutput(structured, content, stats, stack)
+        : undefined,
+    );
+    const unlinkSignal = linkAbortSignal(signal, emitCancelEvent);
+    let timeLimitReached = false;
+    const stopTimeLimit = startTimeLimit({ timeoutMs, deadline }, () => {
+      timeLimitReached = true;
+      emitCancelEvent();
+    });
     this.predict(
-      this.specifier,
       [{ role: "user", content: prompt }],
       {
         // If the user did not specify `stopStrings`, we default to an empty array. This is to
@@ -185,11 +585,24 @@ export class LLMDynamicHandle {
         inputPrefix: "",
         inputSuffix: "",
       },
-      structured,
+      toStructuredPredictionSetting(structured),
+      undefined,
+      logprobs,
       cancelEvent,
-      fragment => push(fragment),
-      (stats, modelInfo) => finished(stats, modelInfo),
-      error => failed(error),
+      (fragment, tokens) => push(fragment, tokens),
+      (stats, modelInfo) => {
+        unlinkSignal();
+        stopTimeLimit();
+        if (timeLimitReached && stats.stopReason === "userStopped") {
+          stats = { ...stats, stopReason: "timeLimitReached" };
+        }
+        finished(stats, modelInfo);
+      },
+      error => {
+        unlinkSignal();
+        stopTimeLimit();
+        failed(error);
+      },
     );
     return ongoingPrediction;
   }
@@ -240,10 +653,21 @@ export class LLMDynamicHandle {
    * console.log(result.stats);
    * ```
    *
+   * To get typed output, pass a zod schema as the `structured` option:
+   *
+   * ```typescript
+   * const schema = z.object({ sentiment: z.enum(["positive", "negative"]) });
+   * const result = await model.respond(history, { structured: schema });
+   * console.log(result.parsed?.sentiment);
+   * ```
+   *
    * @param history - The LLMChatHistory array to use for generating a response.
    * @param opts - Options for the prediction.
    */
-  public respond(history: LLMChatHistory, opts: LLMChatResponseOpts = {}) {
+  public respond<TStructuredOutput = undefined>(
+    history: LLMChatHistory,
+    opts: LLMChatResponseOpts<TStructuredOutput> = {},
+  ): OngoingPrediction<TStructuredOutput> {
     const stack = getCurrentStack(1);
     [history, opts] = this.validator.validateMethodParamsOrThrow(
       "model",
@@ -253,38 +677,708 @@ export class LLMDynamicHandle {
       [history, opts],
       stack,
     );
-    const { structured, ...config } = opts;
+    const { structured, logprobs, signal, timeoutMs, deadline, ...config } = opts;
     const [cancelEvent, emitCancelEvent] = BufferedEvent.create<void>();
-    const { ongoingPrediction, finished, failed, push } = OngoingPrediction.create(emitCancelEvent);
+    const { ongoingPrediction, finished, failed, push } = OngoingPrediction.create(
+      emitCancelEvent,
+      structured instanceof ZodType
+        ? (content, stats) => parseStructuredOutput(structured, content, stats, stack)
+        : undefined,
+    );
+    const unlinkSignal = linkAbortSignal(signal, emitCancelEvent);
+    let timeLimitReached = false;
+    const stopTimeLimit = startTimeLimit({ timeoutMs, deadline }, () => {
+      timeLimitReached = true;
+      emitCancelEvent();
+    });
     this.predict(
-      this.specifier,
       history,
       config,
-      structured,
+      toStructuredPredictionSetting(structured),
+      undefined,
+      logprobs,
       cancelEvent,
-      fragment => push(fragment),
-      (stats, modelInfo) => finished(stats, modelInfo),
-      error => failed(error),
+      (fragment, tokens) => push(fragment, tokens),
+      (stats, modelInfo) => {
+        unlinkSignal();
+        stopTimeLimit();
+        if (timeLimitReached && stats.stopReason === "userStopped") {
+          stats = { ...stats, stopReason: "timeLimitReached" };
+        }
+        finished(stats, modelInfo);
+      },
+      error => {
+        unlinkSignal();
+        stopTimeLimit();
+        failed(error);
+      },
     );
     return ongoingPrediction;
   }
 
+  /**
+   * Use the loaded model to answer based on the given history, while allowing the model to call the
+   * provided tools.
+   *
+   * Whenever the model requests tool calls, the tools are run and their results are appended to the
+   * history, after which the model is asked to continue. This repeats until the model gives an
+   * answer without requesting any tool calls (or `maxRounds` is reached).
+   *
+   * This method returns an {@link OngoingAct} object, which can be used as a promise that resolves
+   * to an {@link ActResult}, or as an async iterable of {@link LLMActEvent}s.
+   *
+   * Example usage:
+   *
+   * ```typescript
+   * const addTool = tool({
+   *   name: "add",
+   *   description: "Add two numbers",
+   *   parameters: { a: z.number(), b: z.number() },
+   *   implementation: ({ a, b }) => a + b,
+   * });
+   * const history = [{ role: "user", content: "What is 1234 + 4321?" }];
+   * const result = await model.act(history, [addTool]);
+   * console.log(result.finalResult.content);
+   * ```
+   *
+   * @param history - The LLMChatHistory array to use for generating a response.
+   * @param tools - The tools the model is allowed to call. See {@link tool}.
+   * @param opts - Options for the predictions.
+   */
+  public act(history: LLMChatHistory, tools: Array<Tool>, opts: LLMActOpts = {}) {
+    const stack = getCurrentStack(1);
+    [history, tools, opts] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "act",
+      ["history", "tools", "opts"],
+      [llmChatHistorySchema, z.array(toolSchema), actOptsSchema],
+      [history, tools, opts],
+      stack,
+    );
+    const toolsMap = new Map<string, Tool>();
+    for (const tool of tools) {
+      if (toolsMap.has(tool.name)) {
+        throw makePrettyError(
+          text`
+            Duplicate tool name "${tool.name}" passed to model.act. Each tool must have a unique
+            name.
+          `,
+          stack,
+        );
+      }
+      toolsMap.set(tool.name, tool);
+    }
+    const { maxRounds = 10, signal, timeoutMs, deadline, ...config } = opts;
+    let cancelled = false;
+    let cancelCurrentRound: (() => void) | null = null;
+    const cancel = () => {
+      cancelled = true;
+      cancelCurrentRound?.();
+    };
+    const { ongoingAct, finished, failed, push } = OngoingAct.create(cancel);
+    const unlinkSignal = linkAbortSignal(signal, cancel);
+    let timeLimitReached = false;
+    const stopTimeLimit = startTimeLimit({ timeoutMs, deadline }, () => {
+      timeLimitReached = true;
+      cancel();
+    });
+    const toolDefinitions = tools.map(toolToLLMToolDefinition);
+    const runRound = (round: number, roundHistory: LLMChatHistory) => {
+      const [cancelEvent, emitCancelEvent] = BufferedEvent.create<void>();
+      cancelCurrentRound = emitCancelEvent;
+      if (cancelled) {
+        // Cancelled before this round started (for example, with an already aborted signal).
+        emitCancelEvent();
+      }
+      return new Promise<{
+        result: PredictionResult<undefined>;
+        toolCallRequests: Array<LLMToolCallRequest>;
+      }>((resolve, reject) => {
+        const fragments: Array<string> = [];
+        const toolCallRequests: Array<LLMToolCallRequest> = [];
+        this.predict(
+          roundHistory,
+          config,
+          undefined,
+          toolDefinitions,
+          undefined,
+          cancelEvent,
+          fragment => {
+            fragments.push(fragment);
+            push({ type: "fragment", round, fragment });
+          },
+          (stats, modelInfo) => {
+            cancelCurrentRound = null;
+            if (timeLimitReached && stats.stopReason === "userStopped") {
+              stats = { ...stats, stopReason: "timeLimitReached" };
+            }
+            resolve({
+              result: new PredictionResult(
+                fragments.join(""),
+                stats,
+                modelInfo,
+                undefined,
+                undefined,
+              ),
+              toolCallRequests,
+            });
+          },
+          reject,
+          toolCallRequest => {
+            toolCallRequests.push(toolCallRequest);
+            push({ type: "toolCallRequested", round, toolCallRequest });
+          },
+        );
+      });
+    };
+    const runToolCall = async (
+      round: number,
+      toolCallRequest: LLMToolCallRequest,
+    ): Promise<string> => {
+      try {
+        const tool = toolsMap.get(toolCallRequest.name);
+        if (tool === undefined) {
+          throw new Error(`Tool "${toolCallRequest.name}" does not exist.`);
+        }
+        const parsed = z.object(tool.parameters).safeParse(toolCallRequest.arguments ?? {});
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for tool "${tool.name}": ${parsed.error.message}`);
+        }
+        const result = await tool.implementation(parsed.data);
+        push({ type: "toolCallResult", round, toolCallRequest, result });
+        return stringifyToolResult(result);
+      } catch (error: any) {
+        const wrapped = error instanceof Error ? error : new Error(String(error));
+        this.logger.debug(`Tool call "${toolCallRequest.name}" failed:`, wrapped.message);
+        push({ type: "toolCallError", round, toolCallRequest, error: wrapped });
+        return stringifyToolResult({ error: wrapped.message });
+      }
+    };
+    (async () => {
+      const workingHistory: LLMChatHistory = [...history];
+      for (let round = 0; round < maxRounds; round++) {
+        const { result, toolCallRequests } = await runRound(round, workingHistory);
+        if (toolCallRequests.length === 0 || cancelled) {
+          workingHistory.push({ role: "assistant", content: result.content });
+          push({ type: "finalMessage", round, content: result.content });
+          return new ActResult(round + 1, workingHistory, result);
+        }
+        workingHistory.push({ role: "assistant", content: result.content, toolCallRequests });
+        for (const toolCallRequest of toolCallRequests) {
+          if (cancelled) {
+            // Don't run the remaining tools, they may have side effects the user no longer wants.
+            break;
+          }
+          workingHistory.push({
+            role: "tool",
+            content: await runToolCall(round, toolCallRequest),
+            toolCallId: toolCallRequest.id,
+          });
+        }
+        if (cancelled) {
+          push({ type: "finalMessage", round, content: result.content });
+          return new ActResult(round + 1, workingHistory, result);
+        }
+      }
+      throw makePrettyError(
+        text`
+          The model is still requesting tool calls after ${maxRounds} rounds. You can raise the
+          limit with the "maxRounds" option of model.act.
+        `,
+        stack,
+      );
+    })()
+      .finally(() => {
+        unlinkSignal();
+        stopTimeLimit();
+      })
+      .then(finished, failed);
+    return ongoingAct;
+  }
+
+  /** @internal */
+  private predictBatch<TStructuredOutput>(
+    count: number,
+    concurrency: number,
+    signal: AbortSignal | undefined,
+    predictOne: (index: number) => OngoingPrediction<TStructuredOutput>,
+  ): OngoingBatchPrediction<TStructuredOutput> {
+    const startTime = Date.now();
+    const queue = new WaitQueue(this.logger, concurrency);
+    const ongoingPredictions = new Set<OngoingPrediction<TStructuredOutput>>();
+    let cancelled = false;
+    const cancel = () => {
+      if (cancelled) {
+        return;
+      }
+      cancelled = true;
+      queue.clearQueue(new Error("The batch prediction was cancelled before this prediction."));
+      for (const ongoingPrediction of ongoingPredictions) {
+        ongoingPrediction.cancel();
+      }
+    };
+    const { ongoingBatchPrediction, finished, failed, push } =
+      OngoingBatchPrediction.create<TStructuredOutput>(cancel);
+    const unlinkSignal = linkAbortSignal(signal, cancel);
+    const runOne = async (index: number): Promise<PredictionResult<TStructuredOutput> | Error> => {
+      // Enter the queue synchronously, so that the predictions start in the order of the inputs.
+      const pager = queue.enterQueue();
+      let result: PredictionResult<TStructuredOutput> | Error;
+      try {
+        const holder = await pager.wait();
+        try {
+          if (cancelled) {
+            throw new Error("The batch prediction was cancelled before this prediction.");
+          }
+          const ongoingPrediction = predictOne(index);
+          ongoingPredictions.add(ongoingPrediction);
+          try {
+            result = await ongoingPrediction;
+          } finally {
+            ongoingPredictions.delete(ongoingPrediction);
+          }
+        } finally {
+          holder.drop();
+        }
+      } catch (error: any) {
+        result = error instanceof Error ? error : new Error(String(error));
+      }
+      push(result instanceof Error ? { index, error: result } : { index, result });
+      return result;
+    };
+    Promise.all(Array.from({ length: count }, (_, index) => runOne(index))).then(results => {
+      unlinkSignal();
+      const stats = aggregatePredictionStats(results, (Date.now() - startTime) / 1000);
+      finished(new BatchPredictionResult(results, stats));
+    }, failed);
+    return ongoingBatchPrediction;
+  }
+
+  /**
+   * Run {@link LLMDynamicHandle#complete} on many prompts, with at most `concurrency` predictions
+   * running at the same time.
+   *
+   * This method returns an {@link OngoingBatchPrediction} object, which can be used as a promise
+   * that resolves to a {@link BatchPredictionResult} (the results in the order of the prompts, and
+   * aggregated statistics), or as an async iterable that yields each result as soon as it is
+   * available.
+   *
+   * Example usage:
+   *
+   * ```typescript
+   * const { results, stats } = await model.completeBatch(prompts, {
+   *   concurrency: 2,
+   *   maxPredictedTokens: 10,
+   * });
+   * ```
+   *
+   * A failed prediction does not stop the rest of the batch. Its entry in the results is the error.
+   *
+   * @param prompts - The prompts to use for prediction.
+   * @param opts - Options for the predictions. The same options are used for every prompt.
+   */
+  public completeBatch<TStructuredOutput = undefined>(
+    prompts: Array<string>,
+    opts: LLMCompletionBatchOpts<TStructuredOutput> = {},
+  ): OngoingBatchPrediction<TStructuredOutput> {
+    const stack = getCurrentStack(1);
+    [prompts, opts] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "completeBatch",
+      ["prompts", "opts"],
+      [z.array(z.string()), completeBatchOptsSchema],
+      [prompts, opts],
+      stack,
+    );
+    const { concurrency = 4, signal, ...completeOpts } = opts;
+    return this.predictBatch(prompts.length, concurrency, signal, index =>
+      this.complete(prompts[index], completeOpts),
+    );
+  }
+
+  /**
+   * Run {@link LLMDynamicHandle#respond} on many histories, with at most `concurrency` predictions
+   * running at the same time.
+   *
+   * This method returns an {@link OngoingBatchPrediction} object, which can be used as a promise
+   * that resolves to a {@link BatchPredictionResult} (the results in the order of the histories,
+   * and aggregated statistics), or as an async iterable that yields each result as soon as it is
+   * available.
+   *
+   * Example usage:
+   *
+   * ```typescript
+   * const histories = reviews.map(review => [
+   *   { role: "system", content: "Classify the sentiment of the review." },
+   *   { role: "user", content: review },
+   * ]);
+   * for await (const { index, result } of model.respondBatch(histories, { concurrency: 4 })) {
+   *   console.log(index, result?.content);
+   * }
+   * ```
+   *
+   * A failed prediction does not stop the rest of the batch. Its entry in the results is the error.
+   *
+   * @param histories - The histories to generate responses for.
+   * @param opts - Options for the predictions. The same options are used for every history.
+   */
+  public respondBatch<TStructuredOutput = undefined>(
+    histories: Array<LLMChatHistory>,
+    opts: LLMChatResponseBatchOpts<TStructuredOutput> = {},
+  ): OngoingBatchPrediction<TStructuredOutput> {
+    const stack = getCurrentStack(1);
+    [histories, opts] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "respondBatch",
+      ["histories", "opts"],
+      [z.array(llmChatHistorySchema), respondBatchOptsSchema],
+      [histories, opts],
+      stack,
+    );
+    const { concurrency = 4, signal, ...respondOpts } = opts;
+    return this.predictBatch(histories.length, concurrency, signal, index =>
+      this.respond(histories[index], respondOpts),
+    );
+  }
+
+  /**
+   * Create a {@link ChatSession} that keeps track of the conversation with this model.
+   *
+   * Example usage:
+   *
+   * ```typescript
+   * const session = model.createChatSession({ systemPrompt: "You are a helpful assistant." });
+   * const result = await session.say("Hello!");
+   * console.log(result.content);
+   * ```
+   *
+   * To restore a session that was saved with {@link ChatSession#toJSON}, pass the saved object:
+   *
+   * ```typescript
+   * const session = model.createChatSession(JSON.parse(saved));
+   * ```
+   *
+   * @param opts - Options for the session. See {@link ChatSessionOpts}.
+   */
+  public createChatSession(opts: ChatSessionOpts = {}): ChatSession {
+    const stack = getCurrentStack(1);
+    opts = this.validator.validateMethodParamOrThrow(
+      "model",
+      "createChatSession",
+      "opts",
+      chatSessionOptsSchema,
+      opts,
+      stack,
+    );
+    return new ChatSession(this, this.validator, opts);
+  }
+
+  /**
+   * Finds the first model in the list of specifiers that is currently loaded, which is the model a
+   * prediction would use.
+   *
+   * @internal
+   */
+  private async findBinding(stack: string): Promise<LLMBinding | undefined> {
+    for (const specifier of [this.specifier, ...this.fallbackSpecifiers]) {
+      const binding = await this.llmPort.callRpc(
+        "getModelInfo",
+        { specifier, throwIfNotFound: false },
+        { stack },
+      );
+      if (binding !== undefined) {
+        return binding;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves the specifier used by the methods that are not predictions. With fallback specifiers,
+   * this is the first model that is currently loaded, pinned by its session identifier. If none is
+   * loaded, the first specifier is used, so that LM Studio reports the usual error.
+   *
+   * @internal
+   */
+  private async resolveSpecifier(stack: string): Promise<LLMModelSpecifier> {
+    if (this.fallbackSpecifiers.length === 0) {
+      return this.specifier;
+    }
+    const binding = await this.findBinding(stack);
+    if (binding === undefined) {
+      return this.specifier;
+    }
+    return { type: "sessionIdentifier", sessionIdentifier: binding.sessionIdentifier };
+  }
+
+  /**
+   * Tokenize the given string with the tokenizer of the model.
+   *
+   * @param inputString - The string to tokenize.
+   * @returns A promise that resolves to the token ids.
+   */
+  public async tokenize(inputString: string): Promise<Array<number>> {
+    const stack = getCurrentStack(1);
+    inputString = this.validator.validateMethodParamOrThrow(
+      "model",
+      "tokenize",
+      "inputString",
+      z.string(),
+      inputString,
+      stack,
+    );
+    const { tokens } = await this.llmPort.callRpc(
+      "tokenize",
+      { specifier: await this.resolveSpecifier(stack), inputString },
+      { stack },
+    );
+    return tokens;
+  }
+
+  /**
+   * Turn the given token ids back into a string with the tokenizer of the model.
+   *
+   * @param tokens - The token ids to detokenize.
+   * @returns A promise that resolves to the detokenized string.
+   */
+  public async detokenize(tokens: Array<number>): Promise<string> {
+    const stack = getCurrentStack(1);
+    tokens = this.validator.validateMethodParamOrThrow(
+      "model",
+      "detokenize",
+      "tokens",
+      z.array(z.number().int()),
+      tokens,
+      stack,
+    );
+    const { outputString } = await this.llmPort.callRpc(
+      "detokenize",
+      { specifier: await this.resolveSpecifier(stack), tokens },
+      { stack },
+    );
+    return outputString;
+  }
+
+  /**
+   * Get the prompt template of the model, which is what turns a chat history into the text that is
+   * fed to the model. See {@link LLMPromptTemplate}.
+   *
+   * To see the result of applying the template to a history, use
+   * {@link LLMDynamicHandle#applyPromptTemplate}.
+   */
+  public async getPromptTemplate(): Promise<LLMPromptTemplate> {
+    const stack = getCurrentStack(1);
+    return await this.llmPort.callRpc(
+      "getPromptTemplate",
+      { specifier: await this.resolveSpecifier(stack) },
+      { stack },
+    );
+  }
+
+  /**
+   * Apply the prompt template of the model to the given chat history, and get the exact text that
+   * would be fed to the model when the history is passed to {@link LLMDynamicHandle#respond}. This
+   * is useful to debug the formatting of a conversation before making the prediction:
+   *
+   * ```typescript
+   * const formatted = await model.applyPromptTemplate([
+   *   { role: "system", content: "You are a helpful assistant." },
+   *   { role: "user", content: "Hello!" },
+   * ]);
+   * console.log(formatted);
+   * ```
+   *
+   * @param history - The chat history to apply the prompt template to.
+   * @param opts - Options for applying the template. See {@link LLMApplyPromptTemplateOpts}.
+   * @returns A promise that resolves to the formatted text.
+   */
+  public async applyPromptTemplate(
+    history: LLMChatHistory,
+    opts: LLMApplyPromptTemplateOpts = {},
+  ): Promise<string> {
+    const stack = getCurrentStack(1);
+    [history, opts] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "applyPromptTemplate",
+      ["history", "opts"],
+      [llmChatHistorySchema, llmApplyPromptTemplateOptsSchema],
+      [history, opts],
+      stack,
+    );
+    const { formatted } = await this.llmPort.callRpc(
+      "applyPromptTemplate",
+      {
+        specifier: await this.resolveSpecifier(stack),
+        history: await resolveChatHistoryImages(history, stack),
+        opts,
+      },
+      { stack },
+    );
+    return formatted;
+  }
+
+  /**
+   * Count the number of tokens in the given string, or in the given chat history.
+   *
+   * When a string is passed, it is tokenized as is. When an {@link LLMChatHistory} is passed, the
+   * prompt template of the model is applied first, so the count is exactly the number of tokens
+   * that the history would take up in the context when passed to {@link LLMDynamicHandle#respond}.
+   *
+   * This can be used to make sure a prompt fits within the context length of the model before
+   * making the prediction:
+   *
+   * ```typescript
+   * const tokensCount = await model.countTokens(history);
+   * if (tokensCount > 4096) {
+   *   // Trim the history...
+   * }
+   * ```
+   *
+   * @param input - The string or chat history to count the tokens of.
+   * @returns A promise that resolves to the number of tokens.
+   */
+  public async countTokens(input: string | LLMChatHistory): Promise<number> {
+    const stack = getCurrentStack(1);
+    input = this.validator.validateMethodParamOrThrow(
+      "model",
+      "countTokens",
+      "input",
+      z.union([z.string(), llmChatHistorySchema]),
+      input,
+      stack,
+    );
+    const { tokensCount } = await this.llmPort.callRpc(
+      "countTokens",
+      {
+        specifier: await this.resolveSpecifier(stack),
+        input:
+          typeof input === "string"
+            ? { type: "text", text: input }
+            : { type: "chatHistory", history: await resolveChatHistoryImages(input, stack) },
+      },
+      { stack },
+    );
+    return tokensCount;
+  }
+
+  /**
+   * Process the given input and save the resulting state of the model (the KV cache) under the
+   * given name. Together with {@link LLMDynamicHandle#restoreState}, this allows a long shared
+   * prefix, such as a system prompt or a document, to be processed only once.
+   *
+   * When an {@link LLMChatHistory} is passed, the prompt template of the model is applied first.
+   * Predictions reuse the state only if their prompt starts with the exact same tokens, so save the
+   * history up to (and including) the shared messages.
+   *
+   * Example usage:
+   *
+   * ```typescript
+   * const system = { role: "system", content: `Answer questions about this document: ${document}` };
+   * await model.saveState("document", [system]);
+   *
+   * // Later, possibly after other predictions:
+   * await model.restoreState("document");
+   * const result = await model.respond([system, { role: "user", content: question }]);
+   * console.log(result.stats.promptProcessingTimeSavedSec);
+   * ```
+   *
+   * Saved states are kept in memory until the model is unloaded. Saving a state with a name that is
+   * already used replaces it.
+   *
+   * @param name - The name to save the state under.
+   * @param input - The string or chat history to process.
+   * @returns A promise that resolves to information about the saved state.
+   */
+  public async saveState(name: string, input: string | LLMChatHistory): Promise<LLMSavedStateInfo> {
+    const stack = getCurrentStack(1);
+    [name, input] = this.validator.validateMethodParamsOrThrow(
+      "model",
+      "saveState",
+      ["name", "input"],
+      [reasonableKeyStringSchema, z.union([z.string(), llmChatHistorySchema])],
+      [name, input],
+      stack,
+    );
+    return await this.llmPort.callRpc(
+      "saveState",
+      {
+        specifier: await this.resolveSpecifier(stack),
+        name,
+        input:
+          typeof input === "string"
+            ? { type: "text", text: input }
+            : { type: "chatHistory", history: await resolveChatHistoryImages(input, stack) },
+      },
+      { stack },
+    );
+  }
+
+  /**
+   * Restore a state saved with {@link LLMDynamicHandle#saveState}. The next prediction whose prompt
+   * starts with the input of the state skips processing that part. The number of tokens reused and
+   * the time saved are reported in the prediction stats (see
+   * {@link LLMPredictionStats#reusedPromptTokensCount}).
+   *
+   * States belong to the model that saved them. Restoring a state that was saved by a different
+   * model fails.
+   *
+   * @param name - The name of the state to restore.
+   * @returns A promise that resolves to information about the restored state.
+   */
+  public async restoreState(name: string): Promise<LLMSavedStateInfo> {
+    const stack = getCurrentStack(1);
+    name = this.validator.validateMethodParamOrThrow(
+      "model",
+      "restoreState",
+      "name",
+      reasonableKeyStringSchema,
+      name,
+      stack,
+    );
+    return await this.llmPort.callRpc(
+      "restoreState",
+      { specifier: await this.resolveSpecifier(stack), name },
+      { stack },
+    );
+  }
+
+  /**
+   * Gets the load config of the model that is currently associated with this `LLMModel`. Unlike the
+   * config passed to {@link LLMNamespace#load}, every field is resolved, including the ones that
+   * came from the preset or the defaults.
+   *
+   * The same config is available as {@link LLMDescriptor#loadConfig} when LM Studio reports it.
+   */
+  public async getLoadConfig(): Promise<LLMLoadModelConfig> {
+    const stack = getCurrentStack(1);
+    return await this.llmPort.callRpc(
+      "getLoadConfig",
+      { specifier: await this.resolveSpecifier(stack) },
+      { stack },
+    );
+  }
+
   /**
    * Gets the information of the model that is currently associated with this `LLMModel`. If no
    * model is currently associated, this will return `undefined`.
    *
    * Note: As models are loaded/unloaded, the model associated with this `LLMModel` may change at
    * any moment.
+   *
+   * If the handle was created from a list of queries, this returns the information of the first
+   * model in the list that is currently loaded, which is the model a prediction would use.
+   *
+   * The information includes what the model is able to do, which can be used to adapt to the model
+   * at runtime. Older versions of LM Studio do not report all of it, so check for absent fields:
+   *
+   * ```typescript
+   * const info = await model.getModelInfo();
+   * if (info?.capabilities?.vision && (info.loadConfig?.contextLength ?? 0) >= 32768) {
+   *   // Send the long prompt with images
+   * }
+   * ```
    */
   public async getModelInfo(): Promise<LLMDescriptor | undefined> {
-    const info = await this.llmPort.callRpc(
-      "getModelInfo",
-      { specifier: this.specifier, throwIfNotFound: false },
-      { stack: getCurrentStack(1) },
-    );
-    if (info === undefined) {
-      return undefined;
-    }
-    return info.descriptor;
+    return (await this.findBinding(getCurrentStack(1)))?.descriptor;
   }
 }
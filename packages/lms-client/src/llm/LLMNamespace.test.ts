@@ -0,0 +1,314 @@
+import { Validator } from "@lmstudio/lms-common";
+import { createLlmBackendInterface } from "@lmstudio/lms-llm-backend-interface";
+import {
+  createStubLLMPort,
+  flushStub,
+  makeTestDescriptor,
+  silentLogger,
+  type StubLLMPort,
+} from "../testing/createStubLLMPort";
+import { LLMNamespace } from "./LLMNamespace";
+
+const llamaPath = "lmstudio-community/Meta-Llama-3-8B-Instruct-GGUF";
+const llamaFilePath = `${llamaPath}/Meta-Llama-3-8B-Instruct-Q4_K_M.gguf`;
+
+function createNamespace(stub: StubLLMPort) {
+  return new LLMNamespace(stub.port, new Validator(), silentLogger);
+}
+
+/**
+ * Makes the stub load models successfully, under the requested identifier (or "loaded").
+ */
+function handleLoadModel(stub: StubLLMPort) {
+  stub.handleChannel("loadModel", channel => {
+    channel.emit({
+      type: "success",
+      sessionIdentifier: `session-${channel.param.identifier ?? "loaded"}`,
+    });
+  });
+}
+
+describe("getOrLoad", () => {
+  test("should reuse a loaded model that satisfies the request", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([
+      {
+        sessionIdentifier: "session-llama",
+        descriptor: makeTestDescriptor("llama", llamaFilePath, {
+          loadConfig: { contextLength: 8192, gpuOffload: 1, flashAttention: true },
+        }),
+      },
+    ]);
+    const namespace = createNamespace(stub);
+    const onReload = jest.fn();
+    await namespace.getOrLoad(llamaPath, {
+      config: { contextLength: 8192, gpuOffload: "max" },
+      onReload,
+    });
+    expect(onReload).not.toHaveBeenCalled();
+    expect(stub.channels).toHaveLength(0);
+    expect(stub.rpcCalls.map(({ endpoint }) => endpoint)).toEqual(["getModelInfo"]);
+    expect(stub.rpcCalls[0].param.specifier).toEqual({
+      type: "query",
+      query: { path: llamaPath },
+    });
+  });
+
+  test("should reload a model loaded with a different config", async () => {
+    const stub = createStubLLMPort();
+    const descriptor = makeTestDescriptor("llama", llamaFilePath, {
+      loadConfig: { contextLength: 4096 },
+    });
+    stub.setLoadedModels([{ sessionIdentifier: "session-llama", descriptor }]);
+    stub.handleRpc("unloadModel", () => undefined);
+    handleLoadModel(stub);
+    const namespace = createNamespace(stub);
+    const onReload = jest.fn();
+    await namespace.getOrLoad(llamaPath, { config: { contextLength: 8192 }, onReload });
+    expect(onReload).toHaveBeenCalledWith(
+      [{ field: "contextLength", requested: 8192, loaded: 4096 }],
+      descriptor,
+    );
+    expect(stub.rpcCalls.map(({ endpoint }) => endpoint)).toEqual(["getModelInfo", "unloadModel"]);
+    expect(stub.channels).toHaveLength(1);
+    expect(stub.channels[0].param).toMatchObject({
+      path: llamaPath,
+      identifier: "llama",
+      config: { contextLength: 8192 },
+    });
+  });
+
+  test("should reload a model whose identifier matches but whose path does not", async () => {
+    const stub = createStubLLMPort();
+    const descriptor = makeTestDescriptor("assistant", "other/model");
+    stub.setLoadedModels([{ sessionIdentifier: "session-assistant", descriptor }]);
+    stub.handleRpc("unloadModel", () => undefined);
+    handleLoadModel(stub);
+    const namespace = createNamespace(stub);
+    const onReload = jest.fn();
+    await namespace.getOrLoad(llamaPath, { identifier: "assistant", onReload });
+    expect(onReload).toHaveBeenCalledWith([], descriptor);
+    expect(stub.channels[0].param).toMatchObject({ path: llamaPath, identifier: "assistant" });
+  });
+
+  test("should fall back to getLoadConfig if the descriptor has no load config", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([
+      {
+        sessionIdentifier: "session-llama",
+        descriptor: { identifier: "llama", path: llamaFilePath },
+      },
+    ]);
+    stub.handleRpc("getLoadConfig", () => ({ contextLength: 8192 }));
+    const namespace = createNamespace(stub);
+    await namespace.getOrLoad(llamaPath, { config: { contextLength: 8192 } });
+    expect(stub.rpcCalls.map(({ endpoint }) => endpoint)).toEqual([
+      "getModelInfo",
+      "getLoadConfig",
+    ]);
+    expect(stub.channels).toHaveLength(0);
+  });
+
+  test("should load the model if none is loaded", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([]);
+    handleLoadModel(stub);
+    const namespace = createNamespace(stub);
+    await namespace.getOrLoad(llamaPath, { identifier: "llama", verbose: false });
+    expect(stub.channels).toHaveLength(1);
+    expect(stub.channels[0].param).toMatchObject({ path: llamaPath, identifier: "llama" });
+  });
+});
+
+describe("onModelLoaded and onModelUnloaded", () => {
+  const llama = {
+    sessionIdentifier: "session-1",
+    descriptor: makeTestDescriptor("llama", llamaFilePath),
+  };
+  const qwen = { sessionIdentifier: "session-2", descriptor: makeTestDescriptor("qwen") };
+
+  test("should not report the models that are already loaded", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([llama]);
+    const namespace = createNamespace(stub);
+    const onLoaded = jest.fn();
+    const unsubscribe = namespace.onModelLoaded(onLoaded);
+    await flushStub();
+    stub.setLoadedModels([llama, qwen]);
+    expect(onLoaded.mock.calls).toEqual([[qwen.descriptor]]);
+    unsubscribe();
+  });
+
+  test("should report the first change if the signal is already up to date", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([llama]);
+    const namespace = createNamespace(stub);
+    const unsubscribeModels = namespace.loadedModels.subscribe(() => {});
+    await namespace.loadedModels.pull();
+    const onUnloaded = jest.fn();
+    const unsubscribe = namespace.onModelUnloaded(onUnloaded);
+    stub.setLoadedModels([]);
+    expect(onUnloaded.mock.calls).toEqual([[llama.descriptor]]);
+    unsubscribe();
+    unsubscribeModels();
+  });
+
+  test("should report a model reloaded under the same identifier", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([llama]);
+    const namespace = createNamespace(stub);
+    const onLoaded = jest.fn();
+    const onUnloaded = jest.fn();
+    const unsubscribeLoaded = namespace.onModelLoaded(onLoaded);
+    const unsubscribeUnloaded = namespace.onModelUnloaded(onUnloaded);
+    await flushStub();
+    const reloaded = { ...llama, sessionIdentifier: "session-3" };
+    stub.setLoadedModels([reloaded]);
+    expect(onUnloaded.mock.calls).toEqual([[llama.descriptor]]);
+    expect(onLoaded.mock.calls).toEqual([[reloaded.descriptor]]);
+    unsubscribeLoaded();
+    unsubscribeUnloaded();
+  });
+});
+
+describe("load", () => {
+  function makeProgressPacket(progress: number) {
+    return {
+      type: "progress",
+      stage: "reading",
+      progress,
+      loadedBytes: progress * 100,
+      totalBytes: 100,
+    };
+  }
+
+  test("should report the progress and resolve to a handle of the loaded model", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("loadModel", channel => {
+      channel.emit(makeProgressPacket(0.5));
+      channel.emit(makeProgressPacket(1));
+      channel.emit({ type: "success", sessionIdentifier: "session-llama" });
+    });
+    const namespace = createNamespace(stub);
+    const onProgress = jest.fn();
+    const ongoingLoad = namespace.load(llamaPath, { onProgress });
+    const progresses = [];
+    for await (const event of ongoingLoad) {
+      progresses.push(event.progress);
+    }
+    const handle = await ongoingLoad;
+    expect(progresses).toEqual([0.5, 1]);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([0.5, 1]);
+    stub.handleRpc("tokenize", () => ({ tokens: [1] }));
+    await handle.tokenize("Hi");
+    expect(stub.rpcCalls[0].param.specifier).toEqual({
+      type: "sessionIdentifier",
+      sessionIdentifier: "session-llama",
+    });
+  });
+
+  test("should report progress packets that only contain the progress", async () => {
+    const packet = { type: "progress", progress: 0.5 };
+    const { toClientPacket } = createLlmBackendInterface().getChannelEndpoint("loadModel")!;
+    expect(toClientPacket.safeParse(packet).success).toBe(true);
+    const stub = createStubLLMPort();
+    stub.handleChannel("loadModel", channel => {
+      channel.emit(packet);
+      channel.emit({ type: "success", sessionIdentifier: "session-llama" });
+    });
+    const namespace = createNamespace(stub);
+    const onProgress = jest.fn();
+    await namespace.load(llamaPath, { onProgress });
+    expect(onProgress.mock.calls).toEqual([[0.5, { progress: 0.5 }]]);
+  });
+
+  test("should send a cancel message and reject when cancelled", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("loadModel", channel => channel.emit(makeProgressPacket(0.5)));
+    const namespace = createNamespace(stub);
+    const ongoingLoad = namespace.load(llamaPath, { verbose: false });
+    await flushStub();
+    ongoingLoad.cancel();
+    await expect(ongoingLoad).rejects.toThrow("cancelled");
+    expect(stub.channels[0].sent).toEqual([{ type: "cancel" }]);
+  });
+
+  test("should ignore the messages that arrive after cancelling", async () => {
+    const stub = createStubLLMPort();
+    const namespace = createNamespace(stub);
+    const onProgress = jest.fn();
+    const ongoingLoad = namespace.load(llamaPath, { onProgress });
+    await flushStub();
+    ongoingLoad.cancel();
+    stub.channels[0].emit(makeProgressPacket(1));
+    stub.channels[0].emit({ type: "success", sessionIdentifier: "session-llama" });
+    await expect(ongoingLoad).rejects.toThrow("cancelled");
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+
+  test("should reject with the reason of the signal when aborted", async () => {
+    const stub = createStubLLMPort();
+    const namespace = createNamespace(stub);
+    const controller = new AbortController();
+    const ongoingLoad = namespace.load(llamaPath, { verbose: false, signal: controller.signal });
+    await flushStub();
+    const reason = new Error("No longer needed");
+    controller.abort(reason);
+    await expect(ongoingLoad).rejects.toBe(reason);
+    expect(stub.channels[0].sent).toEqual([{ type: "cancel" }]);
+  });
+
+  test("should reject once the time limit is reached", async () => {
+    const stub = createStubLLMPort();
+    const namespace = createNamespace(stub);
+    const ongoingLoad = namespace.load(llamaPath, { verbose: false, timeoutMs: 10 });
+    await expect(ongoingLoad).rejects.toThrow("did not finish within the time limit");
+    expect(stub.channels[0].sent).toEqual([{ type: "cancel" }]);
+  });
+});
+
+describe("estimateLoad", () => {
+  const estimate = {
+    estimatedMemory: { ramBytes: 1_000_000_000, vramBytes: 5_000_000_000 },
+    offloadedLayersCount: 32,
+    totalLayersCount: 32,
+    accelerators: [
+      {
+        name: "NVIDIA GeForce RTX 4090",
+        deviceId: 0,
+        totalMemoryBytes: 24e9,
+        type: "dedicatedGpu",
+      },
+    ],
+    availableRamBytes: 32_000_000_000,
+    fitsInRam: true,
+    fitsInVram: true,
+    fits: true,
+  };
+
+  test("should send the path and config and return the estimate", async () => {
+    const stub = createStubLLMPort();
+    stub.handleRpc("estimateLoad", () => estimate);
+    const namespace = createNamespace(stub);
+    const config = { contextLength: 8192, gpuOffload: "max" as const };
+    await expect(namespace.estimateLoad(llamaPath, config)).resolves.toEqual(estimate);
+    expect(stub.rpcCalls).toEqual([
+      { endpoint: "estimateLoad", param: { path: llamaPath, config } },
+    ]);
+  });
+
+  test("should parse the estimate sent by LM Studio", () => {
+    const { returns } = createLlmBackendInterface().getRpcEndpoint("estimateLoad")!;
+    expect(returns.parse(estimate)).toEqual(estimate);
+    const { fits: _fits, ...withoutFits } = estimate;
+    expect(returns.safeParse(withoutFits).success).toBe(false);
+    expect(returns.safeParse({ ...estimate, offloadedLayersCount: -1 }).success).toBe(false);
+  });
+
+  test("should reject an invalid config", async () => {
+    const namespace = createNamespace(createStubLLMPort());
+    await expect(namespace.estimateLoad(llamaPath, { contextLength: -1 })).rejects.toThrow(
+      "estimateLoad",
+    );
+  });
+});
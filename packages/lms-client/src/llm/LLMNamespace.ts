@@ -1,29 +1,42 @@
 import {
   getCurrentStack,
+  LazySignal,
   makePrettyError,
-  makePromise,
   SimpleLogger,
   text,
   type LoggerInterface,
+  type NotAvailable,
   type Validator,
 } from "@lmstudio/lms-common";
 import { type LLMPort } from "@lmstudio/lms-llm-backend-interface";
 import {
+  diffLLMLoadModelConfig,
   llmLoadModelConfigSchema,
   llmModelQuerySchema,
   logLevelSchema,
   reasonableKeyStringSchema,
   type LLMDescriptor,
+  type LLMLoadEstimate,
   type LLMLoadModelConfig,
+  type LLMLoadModelConfigDifference,
+  type LLMLoadProgressEvent,
   type LLMModelQuery,
   type LogLevel,
 } from "@lmstudio/lms-shared-types";
 import { z } from "zod";
+import { startTimeLimit, timeLimitOptsShape, type TimeLimitOpts } from "../timeLimit";
 import { LLMDynamicHandle } from "./LLMDynamicHandle";
+import { LLMPool } from "./LLMPool";
+import { OngoingLoad } from "./OngoingLoad";
 import { LLMSpecificModel } from "./LLMSpecificModel";
 
-/** @public */
-export interface LLMLoadModelOpts {
+/**
+ * Options for {@link LLMNamespace#load}. Once the time limit (see {@link TimeLimitOpts}) is reached,
+ * loading is cancelled and the returned promise rejects.
+ *
+ * @public
+ */
+export interface LLMLoadModelOpts extends TimeLimitOpts {
   /**
    * The name of the preset to use when loading the model. Preset can be downloaded/created/edited
    * in the LM Studio application.
@@ -100,11 +113,12 @@ export interface LLMLoadModelOpts {
 
   /**
    * A function that is called with the progress of the model loading. The function is called with a
-   * number between 0 and 1, inclusive, representing the progress of the model loading.
+   * number between 0 and 1, inclusive, representing the progress of the model loading, and the full
+   * {@link LLMLoadProgressEvent}. Alternatively, iterate over the returned {@link OngoingLoad}.
    *
    * If an `onProgress` callback is provided, verbose progress logs will be disabled.
    */
-  onProgress?: (progress: number) => void;
+  onProgress?: (progress: number, event: LLMLoadProgressEvent) => void;
 
   /**
    * By default, the model will automatically be unloaded when the last client with the same
@@ -126,12 +140,52 @@ const llmLoadModelOptsSchema = z.object({
   verbose: z.union([z.boolean(), logLevelSchema]).optional(),
   onProgress: z.function().optional(),
   noHup: z.boolean().optional(),
+  ...timeLimitOptsShape,
+});
+
+/** @public */
+export interface LLMGetOrLoadOpts extends LLMLoadModelOpts {
+  /**
+   * Called when a loaded model is found, but it does not satisfy the request and is about to be
+   * reloaded. `differences` lists the fields of `config` that do not match `loaded.loadConfig`. It
+   * is empty if the model is only reloaded because its path does not match.
+   */
+  onReload?: (differences: Array<LLMLoadModelConfigDifference>, loaded: LLMDescriptor) => void;
+}
+
+const llmGetOrLoadOptsSchema = llmLoadModelOptsSchema.extend({
+  onReload: z.function().optional(),
 });
 
 /** @public */
 export class LLMNamespace {
   /** @internal */
   private readonly logger: SimpleLogger;
+  /**
+   * The models that are currently loaded, kept up to date as models are loaded and unloaded. This
+   * is the live version of {@link LLMNamespace#listLoaded}.
+   *
+   * The signal only receives updates from LM Studio while it has at least one subscriber. Until the
+   * first update arrives, its value is {@link LazySignal.NOT_AVAILABLE}. Use `pull()` to get an up
+   * to date value:
+   *
+   * ```typescript
+   * const unsubscribe = client.llm.loadedModels.subscribe(models => {
+   *   console.log("Loaded models:", models);
+   * });
+   * const models = await client.llm.loadedModels.pull();
+   * ```
+   */
+  public readonly loadedModels: LazySignal<Array<LLMDescriptor> | NotAvailable>;
+  /**
+   * The loaded models along with their session identifiers, which tell apart two loads of the same
+   * model under the same identifier.
+   *
+   * @internal
+   */
+  private readonly loadedInstances: LazySignal<
+    Array<{ sessionIdentifier: string; descriptor: LLMDescriptor }> | NotAvailable
+  >;
   /** @internal */
   public constructor(
     private readonly llmPort: LLMPort,
@@ -139,6 +193,63 @@ export class LLMNamespace {
     parentLogger: LoggerInterface,
   ) {
     this.logger = new SimpleLogger("Llm", parentLogger);
+    this.loadedInstances = this.llmPort.createSignal("loadedModels", undefined);
+    this.loadedModels = LazySignal.deriveFrom([this.loadedInstances], instances =>
+      instances.map(instance => instance.descriptor),
+    );
+  }
+
+  /** @internal */
+  private subscribeToLoadedModelsChanges(
+    listener: (added: Array<LLMDescriptor>, removed: Array<LLMDescriptor>) => void,
+  ): () => void {
+    // If the signal is already up to date (because something else subscribed to it), the next
+    // update is a real change. Otherwise, the first update only tells what is loaded right now.
+    const current = this.loadedInstances.get();
+    let previous =
+      current !== LazySignal.NOT_AVAILABLE && !this.loadedInstances.isStale() ? current : null;
+    return this.loadedInstances.subscribe(instances => {
+      if (instances === LazySignal.NOT_AVAILABLE) {
+        return;
+      }
+      if (previous !== null) {
+        const previousSessions = new Set(previous.map(instance => instance.sessionIdentifier));
+        const currentSessions = new Set(instances.map(instance => instance.sessionIdentifier));
+        listener(
+          instances
+            .filter(instance => !previousSessions.has(instance.sessionIdentifier))
+            .map(instance => instance.descriptor),
+          previous
+            .filter(instance => !currentSessions.has(instance.sessionIdentifier))
+            .map(instance => instance.descriptor),
+        );
+      }
+      previous = instances;
+    });
+  }
+
+  /**
+   * Calls the listener whenever a model is loaded, by any client. Models that are already loaded
+   * when this method is called are not reported. Unloading a model and loading it again under the
+   * same identifier is reported as an unload followed by a load.
+   *
+   * @param listener - Called with the descriptor of the model that was loaded.
+   * @returns A function that stops calling the listener.
+   */
+  public onModelLoaded(listener: (model: LLMDescriptor) => void): () => void {
+    return this.subscribeToLoadedModelsChanges(added => added.forEach(model => listener(model)));
+  }
+
+  /**
+   * Calls the listener whenever a model is unloaded, by any client.
+   *
+   * @param listener - Called with the descriptor of the model that was unloaded.
+   * @returns A function that stops calling the listener.
+   */
+  public onModelUnloaded(listener: (model: LLMDescriptor) => void): () => void {
+    return this.subscribeToLoadedModelsChanges((_added, removed) =>
+      removed.forEach(model => listener(model)),
+    );
   }
   /**
    * Load a model for inferencing. The first parameter is the model path. The second parameter is
@@ -176,12 +287,23 @@ export class LLMNamespace {
    * Once loaded, see {@link LLMDynamicHandle} for how to use the model for inferencing or other things you
    * can do with the model.
    *
+   * The returned {@link OngoingLoad} can be awaited to get the model, or iterated over to follow
+   * the progress of the load:
+   *
+   * ```typescript
+   * const load = client.llm.load("lmstudio-community/Meta-Llama-3-8B-Instruct-GGUF");
+   * for await (const { stage, loadedBytes, totalBytes } of load) {
+   *   console.log(`${stage}: ${loadedBytes}/${totalBytes} bytes`);
+   * }
+   * const model = await load;
+   * ```
+   *
    * @param path - The path of the model to load. See {@link LLMLoadModelOpts} for
    * details.
    * @param opts - Options for loading the model. See {@link LLMLoadModelOpts} for details.
-   * @returns A promise that resolves to the model that can be used for inferencing
+   * @returns An {@link OngoingLoad} that resolves to the model that can be used for inferencing
    */
-  public async load(path: string, opts: LLMLoadModelOpts = {}): Promise<LLMDynamicHandle> {
+  public load(path: string, opts: LLMLoadModelOpts = {}): OngoingLoad {
     const stack = getCurrentStack(1);
     [path, opts] = this.validator.validateMethodParamsOrThrow(
       "client.llm",
@@ -191,10 +313,32 @@ export class LLMNamespace {
       [path, opts],
       stack,
     );
-    const { preset, identifier, signal, verbose = "info", config, onProgress, noHup } = opts;
+    const {
+      preset,
+      identifier,
+      signal,
+      verbose = "info",
+      config,
+      onProgress,
+      noHup,
+      timeoutMs,
+      deadline,
+    } = opts;
     let lastVerboseCallTime = 0;
 
-    const { promise, resolve, reject } = makePromise<LLMDynamicHandle>();
+    // Once the load is cancelled, LM Studio may still send messages. They are ignored.
+    let settled = false;
+    const { ongoingLoad, finished, failed, push } = OngoingLoad.create(() => {
+      channel.send({ type: "cancel" });
+      fail(makePrettyError(`Loading model ${path} was cancelled.`, stack));
+    });
+    const fail = (error: any) => {
+      if (!settled) {
+        settled = true;
+        stopTimeLimit();
+        failed(error);
+      }
+    };
     const verboseLevel = typeof verbose === "boolean" ? "info" : verbose;
 
     const startTime = Date.now();
@@ -228,27 +372,37 @@ export class LLMNamespace {
                 `,
               );
             }
-            resolve(
-              new LLMDynamicHandle(
-                this.llmPort,
-                { type: "sessionIdentifier", sessionIdentifier: message.sessionIdentifier },
-                this.validator,
-                this.logger,
-              ),
-            );
+            if (!settled) {
+              settled = true;
+              stopTimeLimit();
+              finished(
+                new LLMDynamicHandle(
+                  this.llmPort,
+                  { type: "sessionIdentifier", sessionIdentifier: message.sessionIdentifier },
+                  this.validator,
+                  this.logger,
+                ),
+              );
+            }
             break;
           }
           case "progress": {
-            const { progress } = message;
+            if (settled) {
+              break;
+            }
+            const { type: _type, ...event } = message;
+            const { progress } = event;
+            push(event);
             if (onProgress !== undefined) {
-              onProgress(progress);
+              onProgress(progress, event);
             } else if (verbose) {
               const now = Date.now();
               if (now - lastVerboseCallTime > 500 || progress === 1) {
                 const progressText = (progress * 100).toFixed(1);
+                const stageText = event.stage === undefined ? "" : ` (${event.stage})`;
                 this.logger.logAtLevel(
                   verboseLevel,
-                  `Loading model ${path}, progress: ${progressText}%`,
+                  `Loading model ${path}${stageText}, progress: ${progressText}%`,
                 );
                 lastVerboseCallTime = now;
               }
@@ -259,13 +413,159 @@ export class LLMNamespace {
       { stack },
     );
 
-    channel.onError.subscribeOnce(reject);
+    channel.onError.subscribeOnce(fail);
     signal?.addEventListener("abort", () => {
       channel.send({ type: "cancel" });
-      reject(signal.reason);
+      fail(signal.reason);
     });
+    const stopTimeLimit = startTimeLimit({ timeoutMs, deadline }, () => {
+      channel.send({ type: "cancel" });
+      fail(
+        makePrettyError(
+          text`
+            Loading model ${path} was cancelled because it did not finish within the time limit
+            (set with the "timeoutMs" or "deadline" option).
+          `,
+          stack,
+        ),
+      );
+    });
+
+    return ongoingLoad;
+  }
+
+  /**
+   * Get a loaded model that satisfies the given path, identifier and load config, loading it if
+   * necessary. Unlike {@link LLMNamespace#load}, calling this method several times with the same
+   * arguments does not load the model several times, which makes it suitable for scripts that may
+   * run repeatedly.
+   *
+   * LM Studio looks the model up the same way as {@link LLMNamespace#get}: by `opts.identifier` if
+   * it is specified, and by `path` otherwise. The model it finds is reused if:
+   *
+   * - Its path matches `path` (using the same format as in {@link LLMNamespace#load}), and
+   * - Every field set in `opts.config` matches the config the model was loaded with. Fields that are
+   *   not set are not compared. `opts.preset` is not compared. A symbolic `gpuOffload` matches the
+   *   ratio it resolves to: `"max"` matches `1`, `"off"` matches `0`, and `"auto"` matches any
+   *   ratio.
+   *
+   * Otherwise, the model is unloaded and loaded again with the requested config, keeping its
+   * identifier. `opts.onReload` is called with the differences before that happens, and the
+   * differences are logged (unless `opts.verbose` is `false`). If no model is found, the model is
+   * loaded as with {@link LLMNamespace#load}.
+   *
+   * @example
+   *
+   * ```typescript
+   * const model = await client.llm.getOrLoad("lmstudio-community/Meta-Llama-3-8B-Instruct-GGUF", {
+   *   config: { contextLength: 8192 },
+   *   onReload: differences => console.log("Reloading because of", differences),
+   * });
+   * ```
+   *
+   * @param path - The path of the model. See {@link LLMNamespace#load} for details.
+   * @param opts - Options for loading the model. See {@link LLMGetOrLoadOpts} for details.
+   * @returns A promise that resolves to the model that can be used for inferencing
+   */
+  public async getOrLoad(path: string, opts: LLMGetOrLoadOpts = {}): Promise<LLMDynamicHandle> {
+    const stack = getCurrentStack(1);
+    [path, opts] = this.validator.validateMethodParamsOrThrow(
+      "client.llm",
+      "getOrLoad",
+      ["path", "opts"],
+      [reasonableKeyStringSchema, llmGetOrLoadOptsSchema],
+      [path, opts],
+      stack,
+    );
+    const { onReload, ...loadOpts } = opts;
+    const { identifier, config = {}, verbose = "info" } = loadOpts;
+    const findLoaded = async (query: LLMModelQuery) =>
+      await this.llmPort.callRpc(
+        "getModelInfo",
+        { specifier: { type: "query", query }, throwIfNotFound: false },
+        { stack },
+      );
+    const found = await findLoaded(identifier === undefined ? { path } : { identifier });
+    if (found === undefined) {
+      return await this.load(path, loadOpts);
+    }
+    const { sessionIdentifier, descriptor } = found;
+    // When looked up by identifier, whether the path matches is also left to LM Studio.
+    const pathMatches =
+      identifier === undefined || (await findLoaded({ identifier, path })) !== undefined;
+    const loadConfig =
+      descriptor.loadConfig ??
+      (await this.llmPort.callRpc(
+        "getLoadConfig",
+        { specifier: { type: "sessionIdentifier", sessionIdentifier } },
+        { stack },
+      ));
+    const differences = diffLLMLoadModelConfig(config, loadConfig);
+    if (pathMatches && differences.length === 0) {
+      return new LLMDynamicHandle(
+        this.llmPort,
+        { type: "sessionIdentifier", sessionIdentifier },
+        this.validator,
+        this.logger,
+      );
+    }
+    onReload?.(differences, descriptor);
+    if (verbose) {
+      const reasons = differences.map(
+        ({ field, requested, loaded }) =>
+          `${field}: ${JSON.stringify(loaded)} -> ${JSON.stringify(requested)}`,
+      );
+      if (!pathMatches) {
+        reasons.unshift(`path: ${JSON.stringify(descriptor.path)} -> ${JSON.stringify(path)}`);
+      }
+      this.logger.logAtLevel(
+        typeof verbose === "boolean" ? "info" : verbose,
+        text`
+          Reloading model ${descriptor.identifier} because it was loaded with a different config:
+        `,
+        "\n" + reasons.map(reason => `  ${reason}`).join("\n"),
+      );
+    }
+    await this.llmPort.callRpc("unloadModel", { identifier: descriptor.identifier }, { stack });
+    return await this.load(path, { ...loadOpts, identifier: descriptor.identifier });
+  }
 
-    return promise;
+  /**
+   * Estimate the resources a model would use if it were loaded with the given config, without
+   * loading it. This is useful to pick a `contextLength` or `gpuOffload` that fits the machine
+   * before starting a long load.
+   *
+   * @example
+   *
+   * ```typescript
+   * const path = "lmstudio-community/Meta-Llama-3-8B-Instruct-GGUF";
+   * let contextLength = 32768;
+   * while (!(await client.llm.estimateLoad(path, { contextLength, gpuOffload: "max" })).fits) {
+   *   contextLength /= 2;
+   * }
+   * const model = await client.llm.load(path, { config: { contextLength, gpuOffload: "max" } });
+   * ```
+   *
+   * The estimate is based on the model file and the detected hardware. The actual usage may
+   * differ slightly.
+   *
+   * @param path - The path of the model. See {@link LLMNamespace#load} for details.
+   * @param config - The config the model would be loaded with. See {@link LLMLoadModelConfig}.
+   */
+  public async estimateLoad(
+    path: string,
+    config: LLMLoadModelConfig = {},
+  ): Promise<LLMLoadEstimate> {
+    const stack = getCurrentStack(1);
+    [path, config] = this.validator.validateMethodParamsOrThrow(
+      "client.llm",
+      "estimateLoad",
+      ["path", "config"],
+      [reasonableKeyStringSchema, llmLoadModelConfigSchema],
+      [path, config],
+      stack,
+    );
+    return await this.llmPort.callRpc("estimateLoad", { path, config }, { stack });
   }
 
   /**
@@ -440,25 +740,61 @@ export class LLMNamespace {
    * @param identifier - The identifier of the model to get.
    */
   public createDynamicHandle(identifier: string): LLMDynamicHandle;
-  public createDynamicHandle(param: string | LLMModelQuery): LLMDynamicHandle {
+  /**
+   * Get a dynamic model handle that fails over between several models. The queries are tried in
+   * order: a prediction uses the first query, and if it fails before the model produced any output
+   * (for example, because no model matching the query is loaded, or the model got unloaded), the
+   * prediction is transparently retried with the next query, and so on. Use
+   * {@link PredictionResult#modelInfo} to find out which model actually answered.
+   *
+   * Other methods, such as {@link LLMDynamicHandle#tokenize}, use the first query that matches a
+   * loaded model, which is the model a prediction would use.
+   *
+   * @example
+   *
+   * Prefer Llama 3, but fall back to any model with the identifier "fallback":
+   *
+   * ```ts
+   * const dh = client.llm.createDynamicHandle([
+   *   { path: "lmstudio-community/Meta-Llama-3-8B-Instruct-GGUF" },
+   *   { identifier: "fallback" },
+   * ]);
+   * const result = await dh.complete("...");
+   * console.log(result.modelInfo.identifier);
+   * ```
+   *
+   * @param queries - The queries to try, in order of preference. Must not be empty.
+   */
+  public createDynamicHandle(queries: Array<LLMModelQuery>): LLMDynamicHandle;
+  public createDynamicHandle(
+    param: string | LLMModelQuery | Array<LLMModelQuery>,
+  ): LLMDynamicHandle {
     const stack = getCurrentStack(1);
     this.validator.validateMethodParamOrThrow(
       "client.llm",
       "createDynamicHandle",
       "param",
-      z.union([reasonableKeyStringSchema, llmModelQuerySchema]),
+      z.union([
+        reasonableKeyStringSchema,
+        llmModelQuerySchema,
+        z.array(llmModelQuerySchema).nonempty(),
+      ]),
       param,
       stack,
     );
-    let query: LLMModelQuery;
+    let queries: Array<LLMModelQuery>;
     if (typeof param === "string") {
-      query = {
-        identifier: param,
-      };
+      queries = [
+        {
+          identifier: param,
+        },
+      ];
+    } else if (Array.isArray(param)) {
+      queries = param;
     } else {
-      query = param;
+      queries = [param];
     }
-    if (query.path?.includes("\\")) {
+    if (queries.some(query => query.path?.includes("\\"))) {
       throw makePrettyError(
         text`
           Model path should not contain backslashes, even if you are on Windows. Use forward
@@ -467,14 +803,111 @@ export class LLMNamespace {
         stack,
       );
     }
+    const [specifier, ...fallbackSpecifiers] = queries.map(query => ({
+      type: "query" as const,
+      query,
+    }));
     return new LLMDynamicHandle(
       this.llmPort,
-      {
-        type: "query",
-        query,
-      },
+      specifier,
       this.validator,
       new SimpleLogger("DynamicHandle", this.logger),
+      fallbackSpecifiers,
+    );
+  }
+
+  /**
+   * Create a pool that distributes predictions across all the loaded models that satisfy the given
+   * query, routing each prediction to the model with the fewest predictions in flight. This is
+   * useful if you loaded several copies of the same model to handle parallel traffic.
+   *
+   * The pool is a snapshot: it is made of the identifiers of the models that are loaded when this
+   * method is called. Models loaded later are not added, and predictions routed to an identifier
+   * that is no longer loaded fail. Create a new pool to pick up the changes.
+   *
+   * @example
+   *
+   * ```ts
+   * const pool = await client.llm.createPool({ path: "lmstudio-community/Phi-3.1-mini-4k-instruct-GGUF" });
+   * const prediction = pool.complete("...");
+   * ```
+   *
+   * @param query - The query the models must satisfy. See {@link LLMModelQuery}.
+   */
+  public createPool(query: LLMModelQuery): Promise<LLMPool>;
+  /**
+   * Create a pool that distributes predictions across the loaded models with the given
+   * identifiers, routing each prediction to the model with the fewest predictions in flight.
+   *
+   * The identifiers of the pool are fixed. Models loaded later are not added.
+   *
+   * @example
+   *
+   * ```ts
+   * const pool = await client.llm.createPool(["phi-1", "phi-2"]);
+   * const prediction = pool.complete("...");
+   * ```
+   *
+   * @param identifiers - The identifiers of the models in the pool. Must not be empty.
+   */
+  public createPool(identifiers: Array<string>): Promise<LLMPool>;
+  public async createPool(param: LLMModelQuery | Array<string>): Promise<LLMPool> {
+    const stack = getCurrentStack(1);
+    this.validator.validateMethodParamOrThrow(
+      "client.llm",
+      "createPool",
+      "param",
+      z.union([z.array(reasonableKeyStringSchema).nonempty(), llmModelQuerySchema]),
+      param,
+      stack,
+    );
+    let identifiers: Array<string>;
+    if (Array.isArray(param)) {
+      identifiers = [...new Set(param)];
+    } else {
+      const query = param;
+      const loaded = await this.llmPort.callRpc("listLoaded", undefined, { stack });
+      // Identifiers are unique, so asking LM Studio whether the query matches the model with a
+      // given identifier tells whether that model belongs in the pool.
+      const matches = await Promise.all(
+        loaded.map(async ({ identifier }) => {
+          if (query.identifier !== undefined && query.identifier !== identifier) {
+            return false;
+          }
+          const info = await this.llmPort.callRpc(
+            "getModelInfo",
+            {
+              specifier: { type: "query", query: { ...query, identifier } },
+              throwIfNotFound: false,
+            },
+            { stack },
+          );
+          return info !== undefined;
+        }),
+      );
+      identifiers = loaded
+        .filter((_descriptor, index) => matches[index])
+        .map(({ identifier }) => identifier);
+      if (identifiers.length === 0) {
+        throw makePrettyError(
+          text`
+            Cannot create a pool because no loaded model satisfies the query
+            ${JSON.stringify(query)}.
+          `,
+          stack,
+        );
+      }
+    }
+    return new LLMPool(
+      identifiers.map(identifier => ({
+        identifier,
+        handle: new LLMDynamicHandle(
+          this.llmPort,
+          { type: "query", query: { identifier } },
+          this.validator,
+          new SimpleLogger("DynamicHandle", this.logger),
+        ),
+      })),
     );
   }
 }
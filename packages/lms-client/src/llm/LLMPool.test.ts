@@ -0,0 +1,57 @@
+import { Validator } from "@lmstudio/lms-common";
+import {
+  createStubLLMPort,
+  flushStub,
+  makeSuccessPacket,
+  makeTestDescriptor,
+  silentLogger,
+} from "../testing/createStubLLMPort";
+import { LLMNamespace } from "./LLMNamespace";
+
+describe("LLMPool", () => {
+  test("should route each prediction to the model with the fewest predictions in flight", async () => {
+    const stub = createStubLLMPort();
+    const namespace = new LLMNamespace(stub.port, new Validator(), silentLogger);
+    const pool = await namespace.createPool(["phi-1", "phi-2"]);
+    const first = pool.complete("1");
+    pool.complete("2");
+    expect(pool.getInFlightCounts()).toEqual(
+      new Map([
+        ["phi-1", 1],
+        ["phi-2", 1],
+      ]),
+    );
+    await flushStub();
+    const identifierOf = (index: number) =>
+      stub.channels[index].param.modelSpecifier.query.identifier;
+    expect([identifierOf(0), identifierOf(1)]).toEqual(["phi-1", "phi-2"]);
+
+    stub.channels[0].emit(makeSuccessPacket(makeTestDescriptor("phi-1")));
+    await first;
+    pool.complete("3");
+    await flushStub();
+    expect(identifierOf(2)).toBe("phi-1");
+  });
+
+  test("should only include the models that match the query", async () => {
+    const stub = createStubLLMPort();
+    stub.setLoadedModels([
+      {
+        sessionIdentifier: "session-1",
+        descriptor: makeTestDescriptor("phi-1", "microsoft/phi/q4.gguf"),
+      },
+      {
+        sessionIdentifier: "session-2",
+        descriptor: makeTestDescriptor("llama", "meta/llama/q4.gguf"),
+      },
+      {
+        sessionIdentifier: "session-3",
+        descriptor: makeTestDescriptor("phi-2", "microsoft/phi/q8.gguf"),
+      },
+    ]);
+    const namespace = new LLMNamespace(stub.port, new Validator(), silentLogger);
+    const pool = await namespace.createPool({ path: "microsoft/phi" });
+    expect(pool.identifiers).toEqual(["phi-1", "phi-2"]);
+    await expect(namespace.createPool({ path: "qwen" })).rejects.toThrow("no loaded model");
+  });
+});
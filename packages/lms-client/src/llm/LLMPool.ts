@@ -0,0 +1,112 @@
+import { type LLMChatHistory } from "@lmstudio/lms-shared-types";
+import {
+  type LLMChatResponseOpts,
+  type LLMCompletionOpts,
+  type LLMDynamicHandle,
+} from "./LLMDynamicHandle";
+import { type OngoingPrediction } from "./OngoingPrediction";
+
+interface LLMPoolMember {
+  identifier: string;
+  handle: LLMDynamicHandle;
+  inFlight: number;
+}
+
+/**
+ * Distributes predictions across several loaded instances of a model. Every call to
+ * {@link LLMPool#complete} or {@link LLMPool#respond} is routed to the instance with the fewest
+ * predictions in flight. Ties are broken in a round-robin fashion.
+ *
+ * Example usage:
+ *
+ * ```typescript
+ * await client.llm.load("lmstudio-community/Phi-3.1-mini-4k-instruct-GGUF", { identifier: "phi-1" });
+ * await client.llm.load("lmstudio-community/Phi-3.1-mini-4k-instruct-GGUF", { identifier: "phi-2" });
+ * const pool = await client.llm.createPool(["phi-1", "phi-2"]);
+ * const results = await Promise.all(prompts.map(prompt => pool.complete(prompt)));
+ * ```
+ *
+ * The instances of a pool are fixed when the pool is created. If an instance is unloaded,
+ * predictions routed to it fail.
+ *
+ * @public
+ */
+export class LLMPool {
+  /** @internal */
+  private readonly members: Array<LLMPoolMember>;
+  /** @internal */
+  private nextIndex = 0;
+
+  /**
+   * Don't construct this on your own. Use {@link LLMNamespace#createPool} instead.
+   *
+   * @internal
+   */
+  public constructor(members: Array<{ identifier: string; handle: LLMDynamicHandle }>) {
+    this.members = members.map(({ identifier, handle }) => ({ identifier, handle, inFlight: 0 }));
+  }
+
+  /**
+   * The identifiers of the loaded models in this pool.
+   */
+  public get identifiers(): Array<string> {
+    return this.members.map(member => member.identifier);
+  }
+
+  /**
+   * Get the number of predictions currently in flight for each model in this pool, keyed by the
+   * identifier of the model.
+   */
+  public getInFlightCounts(): Map<string, number> {
+    return new Map(this.members.map(member => [member.identifier, member.inFlight]));
+  }
+
+  /** @internal */
+  private route<TStructuredOutput>(
+    predict: (handle: LLMDynamicHandle) => OngoingPrediction<TStructuredOutput>,
+  ): OngoingPrediction<TStructuredOutput> {
+    let selected = this.members[this.nextIndex];
+    for (let offset = 1; offset < this.members.length; offset++) {
+      const member = this.members[(this.nextIndex + offset) % this.members.length];
+      if (member.inFlight < selected.inFlight) {
+        selected = member;
+      }
+    }
+    this.nextIndex = (this.members.indexOf(selected) + 1) % this.members.length;
+    const ongoingPrediction = predict(selected.handle);
+    selected.inFlight++;
+    const release = () => {
+      selected.inFlight--;
+    };
+    ongoingPrediction.then(release, release);
+    return ongoingPrediction;
+  }
+
+  /**
+   * Predict text with the least busy model in the pool. See {@link LLMDynamicHandle#complete} for
+   * details.
+   *
+   * @param prompt - The prompt to use for prediction.
+   * @param opts - Options for the prediction.
+   */
+  public complete<TStructuredOutput = undefined>(
+    prompt: string,
+    opts: LLMCompletionOpts<TStructuredOutput> = {},
+  ): OngoingPrediction<TStructuredOutput> {
+    return this.route(handle => handle.complete(prompt, opts));
+  }
+
+  /**
+   * Ask the least busy model in the pool to respond to a chat history. See
+   * {@link LLMDynamicHandle#respond} for details.
+   *
+   * @param history - The LLMChatHistory array to use for generating a response.
+   * @param opts - Options for the prediction.
+   */
+  public respond<TStructuredOutput = undefined>(
+    history: LLMChatHistory,
+    opts: LLMChatResponseOpts<TStructuredOutput> = {},
+  ): OngoingPrediction<TStructuredOutput> {
+    return this.route(handle => handle.respond(history, opts));
+  }
+}
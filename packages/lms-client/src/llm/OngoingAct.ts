@@ -0,0 +1,106 @@
+import { StreamablePromise } from "@lmstudio/lms-common";
+import { type LLMToolCallRequest } from "@lmstudio/lms-shared-types";
+import { type ActResult } from "./ActResult";
+
+/**
+ * Represents an event that happens during {@link LLMDynamicHandle#act}. Each event carries the
+ * index of the prediction round (starting from 0) it belongs to.
+ *
+ * - `fragment`: A new fragment of text was generated by the model.
+ * - `toolCallRequested`: The model requested a tool call.
+ * - `toolCallResult`: A tool call finished. The result will be fed back to the model.
+ * - `toolCallError`: A tool call failed (the tool does not exist, the arguments are invalid, or the
+ *   implementation threw). The error message will be fed back to the model.
+ * - `finalMessage`: The model gave its final answer. This is always the last event.
+ *
+ * @public
+ */
+export type LLMActEvent =
+  | {
+      type: "fragment";
+      round: number;
+      fragment: string;
+    }
+  | {
+      type: "toolCallRequested";
+      round: number;
+      toolCallRequest: LLMToolCallRequest;
+    }
+  | {
+      type: "toolCallResult";
+      round: number;
+      toolCallRequest: LLMToolCallRequest;
+      result: unknown;
+    }
+  | {
+      type: "toolCallError";
+      round: number;
+      toolCallRequest: LLMToolCallRequest;
+      error: Error;
+    }
+  | {
+      type: "finalMessage";
+      round: number;
+      content: string;
+    };
+
+/**
+ * Represents an ongoing {@link LLMDynamicHandle#act} call.
+ *
+ * Similar to {@link OngoingPrediction}, this class is Promise-like and resolves to an
+ * {@link ActResult}. It can also be used as an async iterable to receive {@link LLMActEvent}s as
+ * they happen:
+ *
+ * ```typescript
+ * for await (const event of model.act(history, [addTool])) {
+ *   if (event.type === "fragment") {
+ *     process.stdout.write(event.fragment);
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class OngoingAct extends StreamablePromise<LLMActEvent, ActResult> {
+  private actResult: ActResult | null = null;
+
+  protected override async collect(_events: ReadonlyArray<LLMActEvent>): Promise<ActResult> {
+    if (this.actResult === null) {
+      throw new Error("Act result should not be null");
+    }
+    return this.actResult;
+  }
+
+  private constructor(private readonly onCancel: () => void) {
+    super();
+  }
+
+  /** @internal */
+  public static create(onCancel: () => void) {
+    const ongoingAct = new OngoingAct(onCancel);
+    const finished = (actResult: ActResult) => {
+      ongoingAct.actResult = actResult;
+      ongoingAct.finished();
+    };
+    const failed = (error?: any) => ongoingAct.finished(error);
+    const push = (event: LLMActEvent) => ongoingAct.push(event);
+    return { ongoingAct, finished, failed, push };
+  }
+
+  /**
+   * Get the final result. Awaiting on this method is the same as awaiting on the instance itself.
+   */
+  public async result(): Promise<ActResult> {
+    return await this;
+  }
+
+  /**
+   * Cancels the act call. The ongoing prediction round (if any) is stopped with stop reason
+   * `userStopped` and no further rounds are made. A tool call that is already running will not be
+   * interrupted, but its result will not be fed back to the model, and the remaining tool calls of
+   * the round are not run.
+   */
+  public async cancel() {
+    this.onCancel();
+  }
+}
@@ -0,0 +1,95 @@
+import { StreamablePromise } from "@lmstudio/lms-common";
+import { type BatchPredictionResult } from "./BatchPredictionResult";
+import { type PredictionResult } from "./PredictionResult";
+
+/**
+ * Yielded by {@link OngoingBatchPrediction} whenever one of the predictions of the batch finishes.
+ * `index` is the position of the corresponding input. Either `result` or `error` is set.
+ *
+ * @public
+ */
+export type LLMBatchPredictionItem<TStructuredOutput = undefined> =
+  | {
+      index: number;
+      result: PredictionResult<TStructuredOutput>;
+      error?: undefined;
+    }
+  | {
+      index: number;
+      result?: undefined;
+      error: Error;
+    };
+
+/**
+ * Represents an ongoing batch prediction.
+ *
+ * Note, this class is Promise-like, meaning you can use it as a promise. It resolves to a
+ * {@link BatchPredictionResult}, which contains the result (or error) of every prediction along
+ * with aggregated statistics.
+ *
+ * It can also be used as an async iterable, which yields a {@link LLMBatchPredictionItem} whenever
+ * one of the predictions finishes. Since predictions run concurrently, the items are in the order
+ * of completion, not in the order of the inputs:
+ *
+ * ```typescript
+ * const batch = model.completeBatch(prompts, { concurrency: 4 });
+ * for await (const { index, result, error } of batch) {
+ *   if (error !== undefined) {
+ *     console.error(`Prompt ${index} failed:`, error);
+ *   } else {
+ *     console.log(`Prompt ${index}:`, result.content);
+ *   }
+ * }
+ * const { stats } = await batch;
+ * console.log(stats.predictedTokensCount);
+ * ```
+ *
+ * A failed prediction does not fail the batch. The promise only rejects on unexpected errors.
+ *
+ * @public
+ */
+export class OngoingBatchPrediction<TStructuredOutput = undefined> extends StreamablePromise<
+  LLMBatchPredictionItem<TStructuredOutput>,
+  BatchPredictionResult<TStructuredOutput>
+> {
+  private batchResult: BatchPredictionResult<TStructuredOutput> | null = null;
+
+  protected override async collect(): Promise<BatchPredictionResult<TStructuredOutput>> {
+    if (this.batchResult === null) {
+      throw new Error("Batch result should not be null");
+    }
+    return this.batchResult;
+  }
+
+  private constructor(private readonly onCancel: () => void) {
+    super();
+  }
+
+  /** @internal */
+  public static create<TStructuredOutput>(onCancel: () => void) {
+    const ongoingBatchPrediction = new OngoingBatchPrediction<TStructuredOutput>(onCancel);
+    const finished = (batchResult: BatchPredictionResult<TStructuredOutput>) => {
+      ongoingBatchPrediction.batchResult = batchResult;
+      ongoingBatchPrediction.finished();
+    };
+    const failed = (error?: any) => ongoingBatchPrediction.finished(error);
+    const push = (item: LLMBatchPredictionItem<TStructuredOutput>) =>
+      ongoingBatchPrediction.push(item);
+    return { ongoingBatchPrediction, finished, failed, push };
+  }
+
+  /**
+   * Get the final results of the batch. This is the same as awaiting on the instance itself.
+   */
+  public async result(): Promise<BatchPredictionResult<TStructuredOutput>> {
+    return await this;
+  }
+
+  /**
+   * Cancels the batch. All the ongoing predictions are stopped with stop reason `userStopped`, and
+   * the predictions that have not started yet fail without being started.
+   */
+  public async cancel() {
+    this.onCancel();
+  }
+}
@@ -0,0 +1,67 @@
+import { StreamablePromise } from "@lmstudio/lms-common";
+import { type LLMLoadProgressEvent } from "@lmstudio/lms-shared-types";
+import { type LLMDynamicHandle } from "./LLMDynamicHandle";
+
+/**
+ * Represents a model that is being loaded.
+ *
+ * Note, this class is Promise-like, meaning you can use it as a promise. It resolves to an
+ * {@link LLMDynamicHandle} for the loaded model:
+ *
+ * ```typescript
+ * const model = await client.llm.load("lmstudio-community/Meta-Llama-3-8B-Instruct-GGUF");
+ * ```
+ *
+ * It can also be used as an async iterable, which yields a {@link LLMLoadProgressEvent} whenever
+ * LM Studio reports progress:
+ *
+ * ```typescript
+ * const load = client.llm.load("lmstudio-community/Meta-Llama-3-8B-Instruct-GGUF");
+ * for await (const { stage, progress } of load) {
+ *   console.log(`${stage}: ${(progress * 100).toFixed(1)}%`);
+ * }
+ * const model = await load;
+ * ```
+ *
+ * @public
+ */
+export class OngoingLoad extends StreamablePromise<LLMLoadProgressEvent, LLMDynamicHandle> {
+  private handle: LLMDynamicHandle | null = null;
+
+  protected override async collect(): Promise<LLMDynamicHandle> {
+    if (this.handle === null) {
+      throw new Error("Handle should not be null");
+    }
+    return this.handle;
+  }
+
+  private constructor(private readonly onCancel: () => void) {
+    super();
+  }
+
+  /** @internal */
+  public static create(onCancel: () => void) {
+    const ongoingLoad = new OngoingLoad(onCancel);
+    const finished = (handle: LLMDynamicHandle) => {
+      ongoingLoad.handle = handle;
+      ongoingLoad.finished();
+    };
+    const failed = (error?: any) => ongoingLoad.finished(error);
+    const push = (event: LLMLoadProgressEvent) => ongoingLoad.push(event);
+    return { ongoingLoad, finished, failed, push };
+  }
+
+  /**
+   * Get the loaded model. This is the same as awaiting on the instance itself.
+   */
+  public async result(): Promise<LLMDynamicHandle> {
+    return await this;
+  }
+
+  /**
+   * Cancels loading the model. The promise rejects.
+   */
+  public async cancel() {
+    this.onCancel();
+  }
+}
@@ -0,0 +1,96 @@
+import { StreamablePromise } from "@lmstudio/lms-common";
+import { type PredictionResult } from "./PredictionResult";
+
+/**
+ * Makes all properties of an object (and of the objects nested in it) optional.
+ *
+ * @public
+ */
+export type DeepPartial<T> =
+  T extends Array<infer TElement>
+    ? Array<DeepPartial<TElement>>
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+/**
+ * The type of the partial objects yielded by {@link OngoingPartialPrediction}. If a zod schema was
+ * passed as the `structured` option, this is a {@link DeepPartial} of its output type. Otherwise,
+ * nothing is known about the shape of the objects.
+ *
+ * @public
+ */
+export type PartialStructuredOutput<TStructuredOutput> = [TStructuredOutput] extends [undefined]
+  ? unknown
+  : DeepPartial<TStructuredOutput>;
+
+/**
+ * Represents an ongoing prediction of JSON, streamed as progressively more complete objects. Use
+ * {@link OngoingPrediction#partialObjects} to get one.
+ *
+ * Like {@link OngoingPrediction}, this class is Promise-like and resolves to a
+ * {@link PredictionResult}. When used as an async iterable, it yields the JSON generated so far,
+ * parsed as if it was complete: unclosed objects, arrays and strings are closed, and properties
+ * without a value yet are left out. A new object is only yielded when it differs from the previous
+ * one.
+ *
+ * ```typescript
+ * const prediction = model.respond(history, { structured: schema }).partialObjects();
+ * for await (const partial of prediction) {
+ *   render(partial);
+ * }
+ * const result = await prediction;
+ * console.log(result.parsed);
+ * ```
+ *
+ * Note, the partial objects are not validated against the schema, as they are incomplete by
+ * nature. Only the final result is.
+ *
+ * @typeParam TStructuredOutput - The type of {@link PredictionResult#parsed}.
+ * @public
+ */
+export class OngoingPartialPrediction<TStructuredOutput = undefined> extends StreamablePromise<
+  PartialStructuredOutput<TStructuredOutput>,
+  PredictionResult<TStructuredOutput>
+> {
+  private predictionResult: PredictionResult<TStructuredOutput> | null = null;
+
+  protected override async collect(): Promise<PredictionResult<TStructuredOutput>> {
+    if (this.predictionResult === null) {
+      throw new Error("Prediction result should not be null");
+    }
+    return this.predictionResult;
+  }
+
+  private constructor(private readonly onCancel: () => void) {
+    super();
+  }
+
+  /** @internal */
+  public static create<TStructuredOutput>(onCancel: () => void) {
+    const ongoingPartialPrediction = new OngoingPartialPrediction<TStructuredOutput>(onCancel);
+    const finished = (predictionResult: PredictionResult<TStructuredOutput>) => {
+      ongoingPartialPrediction.predictionResult = predictionResult;
+      ongoingPartialPrediction.finished();
+    };
+    const failed = (error?: any) => ongoingPartialPrediction.finished(error);
+    const push = (partial: PartialStructuredOutput<TStructuredOutput>) =>
+      ongoingPartialPrediction.push(partial);
+    return { ongoingPartialPrediction, finished, failed, push };
+  }
+
+  /**
+   * Get the final prediction results. This is the same as awaiting on the instance itself.
+   */
+  public async result(): Promise<PredictionResult<TStructuredOutput>> {
+    return await this;
+  }
+
+  /**
+   * Cancels the prediction. This will stop the prediction with stop reason `userStopped`. See
+   * {@link LLMPredictionStopReason} for other reasons that a prediction might stop.
+   */
+  public async cancel() {
+    this.onCancel();
+  }
+}
@@ -0,0 +1,88 @@
+import { Validator } from "@lmstudio/lms-common";
+import { z } from "zod";
+import {
+  createStubLLMPort,
+  makeSuccessPacket,
+  makeTestDescriptor,
+  type StubLLMPort,
+} from "../testing/createStubLLMPort";
+import { LLMDynamicHandle } from "./LLMDynamicHandle";
+
+function createHandle(stub: StubLLMPort) {
+  return new LLMDynamicHandle(
+    stub.port,
+    { type: "query", query: { identifier: "model-a" } },
+    new Validator(),
+  );
+}
+
+describe("partialObjects", () => {
+  test("should yield progressively more complete objects", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => {
+      for (const fragment of ['{"title": "Du', 'ne", "tags": ', '["sci', '-fi"]', "}", "\n"]) {
+        channel.emit({ type: "fragment", fragment });
+      }
+      channel.emit(makeSuccessPacket(makeTestDescriptor("model-a")));
+    });
+    const schema = z.object({ title: z.string(), tags: z.array(z.string()) });
+    const prediction = createHandle(stub)
+      .complete("Give me a book as JSON.", { structured: schema })
+      .partialObjects();
+    const partials = [];
+    for await (const partial of prediction) {
+      partials.push(partial);
+    }
+    expect(partials).toEqual([
+      { title: "Du" },
+      { title: "Dune" },
+      { title: "Dune", tags: ["sci"] },
+      { title: "Dune", tags: ["sci-fi"] },
+    ]);
+    const result = await prediction;
+    expect(result.parsed).toEqual({ title: "Dune", tags: ["sci-fi"] });
+  });
+});
+
+describe("onTokens", () => {
+  function makeToken(tokenId: number, text: string) {
+    return {
+      tokenId,
+      text,
+      logprob: -0.1,
+      topCandidates: [{ tokenId: tokenId + 100, text: text.toUpperCase(), logprob: -2 }],
+    };
+  }
+
+  test("should report the tokens of each fragment and aggregate them in the result", async () => {
+    const stub = createStubLLMPort();
+    const tokens = [makeToken(1, "Hel"), makeToken(2, "lo"), makeToken(3, "!")];
+    stub.handleChannel("predict", channel => {
+      channel.emit({ type: "fragment", fragment: "Hello", tokens: tokens.slice(0, 2) });
+      channel.emit({ type: "fragment", fragment: "!", tokens: tokens.slice(2) });
+      channel.emit(makeSuccessPacket(makeTestDescriptor("model-a")));
+    });
+    const prediction = createHandle(stub).complete("Hi", { logprobs: { topK: 1 } });
+    const onTokens = jest.fn();
+    prediction.onTokens.subscribe(onTokens);
+    const result = await prediction;
+    expect(stub.channels[0].param.logprobs).toEqual({ topK: 1 });
+    expect(onTokens.mock.calls).toEqual([[tokens.slice(0, 2)], [tokens.slice(2)]]);
+    expect(result.logprobs).toEqual(tokens);
+  });
+
+  test("should not report logprobs if they were not requested", async () => {
+    const stub = createStubLLMPort();
+    stub.handleChannel("predict", channel => {
+      channel.emit({ type: "fragment", fragment: "Hello" });
+      channel.emit(makeSuccessPacket(makeTestDescriptor("model-a")));
+    });
+    const prediction = createHandle(stub).complete("Hi");
+    const onTokens = jest.fn();
+    prediction.onTokens.subscribe(onTokens);
+    const result = await prediction;
+    expect(stub.channels[0].param.logprobs).toBeUndefined();
+    expect(onTokens).not.toHaveBeenCalled();
+    expect(result.logprobs).toBeUndefined();
+  });
+});
@@ -1,9 +1,10 @@
-import { StreamablePromise } from "@lmstudio/lms-common";
+import { Event, parsePartialJSON, StreamablePromise } from "@lmstudio/lms-common";
 import {
   type LLMDescriptor,
   type LLMPredictionStats,
-  type LLMPredictionStopReason,
+  type LLMTokenLogprob,
 } from "@lmstudio/lms-shared-types";
+import { OngoingPartialPrediction, type PartialStructuredOutput } from "./OngoingPartialPrediction";
 import { PredictionResult } from "./PredictionResult";
 
 /**
@@ -36,36 +37,92 @@ import { PredictionResult } from "./PredictionResult";
  * }
  * ```
  *
+ * @typeParam TStructuredOutput - The type of {@link PredictionResult#parsed}. `undefined` unless a
+ * zod schema was passed as the `structured` option.
  * @public
  */
-export class OngoingPrediction extends StreamablePromise<string, PredictionResult> {
+export class OngoingPrediction<TStructuredOutput = undefined> extends StreamablePromise<
+  string,
+  PredictionResult<TStructuredOutput>
+> {
   private stats: LLMPredictionStats | null = null;
   private modelInfo: LLMDescriptor | null = null;
+  private logprobs: Array<LLMTokenLogprob> | null = null;
+  private readonly emitOnTokens: (tokens: Array<LLMTokenLogprob>) => void;
+  /**
+   * Only emitted if the `logprobs` option was set. Emitted with the predicted tokens (along with
+   * their log probabilities and the top alternatives) whenever a new fragment is generated.
+   *
+   * Tokens emitted before subscribing are not replayed. All tokens are also available in
+   * {@link PredictionResult#logprobs} once the prediction finishes.
+   *
+   * ```typescript
+   * const prediction = model.complete("...", { logprobs: { topK: 3 } });
+   * prediction.onTokens.subscribe(tokens => {
+   *   for (const token of tokens) {
+   *     console.log(token.text, Math.exp(token.logprob));
+   *   }
+   * });
+   * ```
+   */
+  public readonly onTokens: Event<Array<LLMTokenLogprob>>;
 
-  protected override async collect(fragments: ReadonlyArray<string>): Promise<PredictionResult> {
+  protected override async collect(
+    fragments: ReadonlyArray<string>,
+  ): Promise<PredictionResult<TStructuredOutput>> {
     if (this.stats === null) {
       throw new Error("Stats should not be null");
     }
     if (this.modelInfo === null) {
       throw new Error("Model info should not be null");
     }
-    return new PredictionResult(fragments.join(""), this.stats, this.modelInfo);
+    const content = fragments.join("");
+    return new PredictionResult(
+      content,
+      this.stats,
+      this.modelInfo,
+      this.parse(content, this.stats),
+      this.logprobs ?? undefined,
+    );
   }
 
-  private constructor(private readonly onCancel: () => void) {
+  private constructor(
+    private readonly onCancel: () => void,
+    private readonly parse: (
+      content: string,
+      stats: LLMPredictionStats,
+    ) => TStructuredOutput | undefined,
+  ) {
     super();
+    [this.onTokens, this.emitOnTokens] = Event.create<Array<LLMTokenLogprob>>();
   }
 
-  /** @internal */
-  public static create(onCancel: () => void) {
-    const ongoingPrediction = new OngoingPrediction(onCancel);
+  /**
+   * @param parse - Produces {@link PredictionResult#parsed} from the generated content. If it
+   * throws, the prediction is rejected with the error.
+   *
+   * @internal
+   */
+  public static create<TStructuredOutput = undefined>(
+    onCancel: () => void,
+    parse: (content: string, stats: LLMPredictionStats) => TStructuredOutput | undefined = () =>
+      undefined,
+  ) {
+    const ongoingPrediction = new OngoingPrediction<TStructuredOutput>(onCancel, parse);
     const finished = (stats: LLMPredictionStats, modelInfo: LLMDescriptor) => {
       ongoingPrediction.stats = stats;
       ongoingPrediction.modelInfo = modelInfo;
       ongoingPrediction.finished();
     };
     const failed = (error?: any) => ongoingPrediction.finished(error);
-    const push = (fragment: string) => ongoingPrediction.push(fragment);
+    const push = (fragment: string, tokens?: Array<LLMTokenLogprob>) => {
+      if (tokens !== undefined) {
+        ongoingPrediction.logprobs ??= [];
+        ongoingPrediction.logprobs.push(...tokens);
+        ongoingPrediction.emitOnTokens(tokens);
+      }
+      ongoingPrediction.push(fragment);
+    };
     return { ongoingPrediction, finished, failed, push };
   }
 
@@ -94,10 +151,57 @@ export class OngoingPrediction extends StreamablePromise<string, PredictionResul
    * await prediction;
    * ```
    */
-  public async result(): Promise<PredictionResult> {
+  public async result(): Promise<PredictionResult<TStructuredOutput>> {
     return await this;
   }
 
+  /**
+   * Stream the prediction as progressively more complete objects instead of text fragments. Only
+   * useful when the prediction generates JSON, i.e. when the `structured` option is set to
+   * `{ type: "json" }` or to a zod schema. See {@link OngoingPartialPrediction} for details.
+   *
+   * Example:
+   *
+   * ```typescript
+   * const schema = z.object({ title: z.string(), tags: z.array(z.string()) });
+   * const prediction = model.complete("...", { structured: schema }).partialObjects();
+   * for await (const partial of prediction) {
+   *   console.log(partial.title, partial.tags?.length);
+   * }
+   * ```
+   *
+   * The returned object streams independently of this one, so this prediction can still be
+   * iterated or awaited as usual.
+   */
+  public partialObjects(): OngoingPartialPrediction<TStructuredOutput> {
+    const { ongoingPartialPrediction, finished, failed, push } =
+      OngoingPartialPrediction.create<TStructuredOutput>(this.onCancel);
+    (async () => {
+      let content = "";
+      let lastSerialized: string | undefined = undefined;
+      for await (const fragment of this) {
+        content += fragment;
+        let partial: unknown;
+        try {
+          partial = parsePartialJSON(content);
+        } catch {
+          // Not valid JSON (so far). Nothing to yield, but the final result is still produced.
+          continue;
+        }
+        if (partial === undefined) {
+          continue;
+        }
+        const serialized = JSON.stringify(partial);
+        if (serialized !== lastSerialized) {
+          lastSerialized = serialized;
+          push(partial as PartialStructuredOutput<TStructuredOutput>);
+        }
+      }
+      return await this.result();
+    })().then(finished, failed);
+    return ongoingPartialPrediction;
+  }
+
   /**
    * Cancels the prediction. This will stop the prediction with stop reason `userStopped`. See
    * {@link LLMPredictionStopReason} for other reasons that a prediction might stop.
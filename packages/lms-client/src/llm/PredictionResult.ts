@@ -1,4 +1,8 @@
-import { type LLMDescriptor, type LLMPredictionStats } from "@lmstudio/lms-shared-types";
+import {
+  type LLMDescriptor,
+  type LLMPredictionStats,
+  type LLMTokenLogprob,
+} from "@lmstudio/lms-shared-types";
 
 /**
  * Represents the result of a prediction.
@@ -7,9 +11,14 @@ import { type LLMDescriptor, type LLMPredictionStats } from "@lmstudio/lms-share
  * Additionally, the {@link PredictionResult#stats} property contains statistics about the
  * prediction.
  *
+ * If a zod schema was passed as the `structured` option of the prediction, the
+ * {@link PredictionResult#parsed} property contains the parsed and validated output.
+ *
+ * @typeParam TStructuredOutput - The type of the parsed output. `undefined` if no zod schema was
+ * used.
  * @public
  */
-export class PredictionResult {
+export class PredictionResult<TStructuredOutput = undefined> {
   public constructor(
     /**
      * The newly generated text as predicted by the LLM.
@@ -20,8 +29,21 @@ export class PredictionResult {
      */
     public readonly stats: LLMPredictionStats,
     /**
-     * Information about the model used for the prediction.
+     * Information about the model used for the prediction. If the prediction was made with a handle
+     * created from a list of queries, this is the model that actually answered.
      */
     public readonly modelInfo: LLMDescriptor,
+    /**
+     * The generated content parsed as JSON and validated against the zod schema passed as the
+     * `structured` option. `undefined` if no zod schema was passed, or if the prediction was stopped
+     * early (stop reason `timeLimitReached` or `userStopped`), in which case the content is
+     * incomplete.
+     */
+    public readonly parsed: TStructuredOutput | undefined,
+    /**
+     * The predicted tokens, along with their log probabilities and the most likely alternatives.
+     * Only available if the `logprobs` option was set for the prediction.
+     */
+    public readonly logprobs: Array<LLMTokenLogprob> | undefined,
   ) {}
 }
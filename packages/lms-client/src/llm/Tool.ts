@@ -0,0 +1,75 @@
+import { reasonableKeyStringSchema, type LLMToolDefinition } from "@lmstudio/lms-shared-types";
+import { z, ZodType, type ZodRawShape } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * A tool that the model can call during {@link LLMDynamicHandle#act}.
+ *
+ * The parameters of the tool are described with a zod shape (the same object you would pass to
+ * `z.object`). The arguments generated by the model are validated against it before the
+ * implementation is called.
+ *
+ * Use the {@link tool} function to create a tool, so that the parameters of the implementation are
+ * typed correctly.
+ *
+ * @public
+ */
+export interface Tool<TParameters extends ZodRawShape = ZodRawShape> {
+  /**
+   * The name of the tool. Must be unique among the tools passed to the same `act` call.
+   */
+  name: string;
+  /**
+   * A description of what the tool does. The model uses this to decide when to call the tool.
+   */
+  description: string;
+  /**
+   * The parameters of the tool, as a zod shape.
+   */
+  parameters: TParameters;
+  /**
+   * The function to run when the model calls the tool. The return value is serialized to JSON (if
+   * it is not already a string) and fed back to the model.
+   *
+   * (Declared as a method so that tools with specific parameters can be passed where a
+   * `Array<Tool>` is expected.)
+   */
+  implementation(params: z.infer<z.ZodObject<TParameters>>): unknown | Promise<unknown>;
+}
+export const toolSchema = z.object({
+  name: reasonableKeyStringSchema,
+  description: z.string(),
+  parameters: z.record(z.instanceof(ZodType)),
+  implementation: z.function(),
+});
+
+/**
+ * Creates a tool that can be passed to {@link LLMDynamicHandle#act}.
+ *
+ * Example usage:
+ *
+ * ```typescript
+ * const addTool = tool({
+ *   name: "add",
+ *   description: "Add two numbers",
+ *   parameters: { a: z.number(), b: z.number() },
+ *   implementation: ({ a, b }) => a + b,
+ * });
+ * ```
+ *
+ * @public
+ */
+export function tool<TParameters extends ZodRawShape>(tool: Tool<TParameters>): Tool<TParameters> {
+  return tool;
+}
+
+/**
+ * Converts a tool to the definition that is sent to LM Studio.
+ */
+export function toolToLLMToolDefinition(tool: Tool): LLMToolDefinition {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: zodToJsonSchema(z.object(tool.parameters)),
+  };
+}
@@ -0,0 +1,67 @@
+import { maxChatHistoryImageSizeBytes } from "@lmstudio/lms-shared-types";
+import { mkdtempSync, rmSync, truncateSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { resolveChatHistoryImages, resolveChatHistoryImagesSync } from "./resolveChatHistoryImages";
+
+describe("resolveChatHistoryImages", () => {
+  let directory: string;
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), "lms-client-images-"));
+  });
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("should convert buffers and files to base64", async () => {
+    const filePath = join(directory, "image.png");
+    writeFileSync(filePath, Buffer.from([4, 5, 6]));
+    const history = [
+      {
+        role: "user" as const,
+        content: [
+          { type: "text" as const, text: "Compare these:" },
+          {
+            type: "image" as const,
+            buffer: new Uint8Array([1, 2, 3]),
+            mimeType: "image/png" as const,
+          },
+          { type: "image" as const, filePath },
+        ],
+      },
+    ];
+    const expected = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Compare these:" },
+          { type: "image", base64: "AQID", mimeType: "image/png" },
+          { type: "image", base64: "BAUG", mimeType: "image/png" },
+        ],
+      },
+    ];
+    await expect(resolveChatHistoryImages(history)).resolves.toEqual(expected);
+    expect(resolveChatHistoryImagesSync(history)).toEqual(expected);
+  });
+
+  test("should reject a file that is too large before reading it", async () => {
+    const filePath = join(directory, "large.png");
+    writeFileSync(filePath, "");
+    // Sparse file, so the test does not write the whole file to disk.
+    truncateSync(filePath, maxChatHistoryImageSizeBytes + 1);
+    const history = [{ role: "user" as const, content: [{ type: "image" as const, filePath }] }];
+    await expect(resolveChatHistoryImages(history)).rejects.toThrow("too large");
+    expect(() => resolveChatHistoryImagesSync(history)).toThrow("too large");
+  });
+
+  test("should reject a buffer that is too large", () => {
+    const buffer = new Uint8Array(maxChatHistoryImageSizeBytes + 1);
+    const history = [
+      {
+        role: "user" as const,
+        content: [{ type: "image" as const, buffer, mimeType: "image/jpeg" as const }],
+      },
+    ];
+    expect(() => resolveChatHistoryImagesSync(history)).toThrow("too large");
+  });
+});
@@ -0,0 +1,171 @@
+import { makePrettyError, text } from "@lmstudio/lms-common";
+import {
+  bytesToBase64,
+  getFileSize,
+  getFileSizeSync,
+  readFileAsBase64,
+  readFileAsBase64Sync,
+} from "@lmstudio/lms-isomorphic";
+import {
+  maxChatHistoryImageSizeBytes,
+  type LLMChatHistory,
+  type LLMChatHistoryImageMimeType,
+  type LLMChatHistoryImagePart,
+  type LLMResolvedChatHistory,
+} from "@lmstudio/lms-shared-types";
+
+const mimeTypesByExtension = new Map<string, LLMChatHistoryImageMimeType>([
+  ["png", "image/png"],
+  ["jpg", "image/jpeg"],
+  ["jpeg", "image/jpeg"],
+  ["webp", "image/webp"],
+  ["gif", "image/gif"],
+]);
+
+function inferMimeType(filePath: string, stack?: string): LLMChatHistoryImageMimeType {
+  const extension = filePath.split(".").at(-1)?.toLowerCase() ?? "";
+  const mimeType = mimeTypesByExtension.get(extension);
+  if (mimeType === undefined) {
+    throw makePrettyError(
+      text`
+        Cannot infer the image type of "${filePath}" from its extension. Supported extensions are:
+        ${[...mimeTypesByExtension.keys()].join(", ")}. You can also specify the "mimeType" of the
+        image part explicitly.
+      `,
+      stack,
+    );
+  }
+  return mimeType;
+}
+
+function base64DecodedSize(base64: string) {
+  let padding = 0;
+  if (base64.endsWith("==")) {
+    padding = 2;
+  } else if (base64.endsWith("=")) {
+    padding = 1;
+  }
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+type ResolvedImagePart = {
+  type: "image";
+  base64: string;
+  mimeType: LLMChatHistoryImageMimeType;
+};
+
+function checkImageSize(sizeBytes: number, source: string, stack?: string) {
+  if (sizeBytes > maxChatHistoryImageSizeBytes) {
+    throw makePrettyError(
+      text`
+        The ${source} is too large (${sizeBytes} bytes). The maximum size of an image is
+        ${maxChatHistoryImageSizeBytes} bytes.
+      `,
+      stack,
+    );
+  }
+}
+
+function makeReadImageFileError(filePath: string, error: any, stack?: string) {
+  return makePrettyError(
+    text`
+      Failed to read the image file "${filePath}": ${String(error?.message ?? error)}
+    `,
+    stack,
+  );
+}
+
+/**
+ * Converts an image part to base64. The size of the image is checked before it is read or encoded.
+ * Image files are read synchronously, so prefer {@link resolveImagePart} when possible.
+ */
+function resolveImagePartSync(part: LLMChatHistoryImagePart, stack?: string): ResolvedImagePart {
+  if ("base64" in part) {
+    checkImageSize(base64DecodedSize(part.base64), "base64 image", stack);
+    return { type: "image", base64: part.base64, mimeType: part.mimeType };
+  }
+  if ("buffer" in part) {
+    checkImageSize(part.buffer.byteLength, "image buffer", stack);
+    return { type: "image", base64: bytesToBase64(part.buffer), mimeType: part.mimeType };
+  }
+  const { filePath } = part;
+  const mimeType = part.mimeType ?? inferMimeType(filePath, stack);
+  let sizeBytes: number;
+  try {
+    sizeBytes = getFileSizeSync(filePath);
+  } catch (error: any) {
+    throw makeReadImageFileError(filePath, error, stack);
+  }
+  checkImageSize(sizeBytes, `image file "${filePath}"`, stack);
+  try {
+    return { type: "image", base64: readFileAsBase64Sync(filePath), mimeType };
+  } catch (error: any) {
+    throw makeReadImageFileError(filePath, error, stack);
+  }
+}
+
+/**
+ * Same as {@link resolveImagePartSync}, but reads image files asynchronously.
+ */
+async function resolveImagePart(
+  part: LLMChatHistoryImagePart,
+  stack?: string,
+): Promise<ResolvedImagePart> {
+  if (!("filePath" in part)) {
+    return resolveImagePartSync(part, stack);
+  }
+  const { filePath } = part;
+  const mimeType = part.mimeType ?? inferMimeType(filePath, stack);
+  let sizeBytes: number;
+  try {
+    sizeBytes = await getFileSize(filePath);
+  } catch (error: any) {
+    throw makeReadImageFileError(filePath, error, stack);
+  }
+  checkImageSize(sizeBytes, `image file "${filePath}"`, stack);
+  try {
+    return { type: "image", base64: await readFileAsBase64(filePath), mimeType };
+  } catch (error: any) {
+    throw makeReadImageFileError(filePath, error, stack);
+  }
+}
+
+/**
+ * Converts all the images in the history to base64, so that the history can be sent to LM Studio.
+ * Also checks that the images are within the size limit.
+ */
+export async function resolveChatHistoryImages(
+  history: LLMChatHistory,
+  stack?: string,
+): Promise<LLMResolvedChatHistory> {
+  return await Promise.all(
+    history.map(async message => {
+      if (typeof message.content === "string") {
+        return { ...message, content: message.content };
+      }
+      const content = await Promise.all(
+        message.content.map(part => (part.type === "text" ? part : resolveImagePart(part, stack))),
+      );
+      return { ...message, content };
+    }),
+  );
+}
+
+/**
+ * Same as {@link resolveChatHistoryImages}, but synchronous. Used where the history must be
+ * converted right away, such as when serializing a {@link ChatSession}.
+ */
+export function resolveChatHistoryImagesSync(
+  history: LLMChatHistory,
+  stack?: string,
+): LLMResolvedChatHistory {
+  return history.map(message => {
+    if (typeof message.content === "string") {
+      return { ...message, content: message.content };
+    }
+    const content = message.content.map(part =>
+      part.type === "text" ? part : resolveImagePartSync(part, stack),
+    );
+    return { ...message, content };
+  });
+}
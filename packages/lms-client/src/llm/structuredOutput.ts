@@ -0,0 +1,89 @@
+import { makePrettyError, text, Validator } from "@lmstudio/lms-common";
+import {
+  llmStructuredPredictionSettingSchema,
+  type LLMPredictionStats,
+  type LLMStructuredPredictionSetting,
+} from "@lmstudio/lms-shared-types";
+import { z, ZodType } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * What can be passed as the `structured` option of a prediction: either the raw
+ * {@link LLMStructuredPredictionSetting}, or a zod schema. When a zod schema is passed, it is
+ * converted to JSON schema and the result of the prediction is parsed and validated against it.
+ *
+ * @public
+ */
+export type LLMStructuredPredictionOpt<TStructuredOutput> =
+  | LLMStructuredPredictionSetting
+  | ZodType<TStructuredOutput>;
+export const llmStructuredPredictionOptSchema = z.union([
+  llmStructuredPredictionSettingSchema,
+  z.instanceof(ZodType),
+]);
+
+/**
+ * Converts the `structured` option of a prediction into the setting that is sent to LM Studio.
+ */
+export function toStructuredPredictionSetting(
+  structured: LLMStructuredPredictionOpt<unknown> | undefined,
+): LLMStructuredPredictionSetting | undefined {
+  if (structured instanceof ZodType) {
+    return { type: "json", jsonSchema: zodToJsonSchema(structured) };
+  }
+  return structured;
+}
+
+/**
+ * Parses the generated content as JSON and validates it against the zod schema. Throws a pretty
+ * error if the content is not valid JSON or does not match the schema.
+ *
+ * If the prediction was stopped early, either because its time limit was reached or because it was
+ * cancelled (with `cancel()` or the `signal` option), the content is cut off at an arbitrary point,
+ * so it is not parsed and `undefined` is returned instead.
+ */
+export function parseStructuredOutput<TStructuredOutput>(
+  schema: ZodType<TStructuredOutput>,
+  content: string,
+  stats: LLMPredictionStats,
+  stack?: string,
+): TStructuredOutput | undefined {
+  if (stats.stopReason === "timeLimitReached" || stats.stopReason === "userStopped") {
+    return undefined;
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error: any) {
+    throw makePrettyError(
+      text`
+        The model did not generate valid JSON (stop reason: ${stats.stopReason}). If the prediction
+        was stopped early, for example because of "maxPredictedTokens", the output may be
+        incomplete.
+
+        ${String(error?.message ?? error)}
+
+        Generated content:
+
+        ${content}
+      `,
+      stack,
+    );
+  }
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    throw makePrettyError(
+      text`
+        The output of the model does not match the provided schema.
+
+        ${Validator.prettyPrintZod("output", result.error)}
+
+        Generated content:
+
+        ${content}
+      `,
+      stack,
+    );
+  }
+  return result.data;
+}
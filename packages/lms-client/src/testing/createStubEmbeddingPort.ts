@@ -0,0 +1,30 @@
+import { type EmbeddingPort } from "@lmstudio/lms-embedding-backend-interface";
+import { type EmbeddingDescriptor } from "@lmstudio/lms-shared-types";
+import { createStubLLMPort, type StubLLMPort } from "./createStubLLMPort";
+
+export interface StubEmbeddingPort extends Omit<StubLLMPort, "port" | "setLoadedModels"> {
+  port: EmbeddingPort;
+  /**
+   * Makes the stub behave as if the given embedding models are loaded: `listLoaded` and
+   * `getModelInfo` report them.
+   */
+  setLoadedModels(models: Array<StubLoadedEmbeddingModel>): void;
+}
+
+export interface StubLoadedEmbeddingModel {
+  sessionIdentifier: string;
+  descriptor: EmbeddingDescriptor;
+}
+
+/**
+ * Creates a fake {@link EmbeddingPort} for testing the client without LM Studio. It behaves the
+ * same as {@link createStubLLMPort}, as both ports share the same shape.
+ */
+export function createStubEmbeddingPort(): StubEmbeddingPort {
+  const stub = createStubLLMPort();
+  return {
+    ...stub,
+    port: stub.port as unknown as EmbeddingPort,
+    setLoadedModels: models => stub.setLoadedModels(models),
+  };
+}
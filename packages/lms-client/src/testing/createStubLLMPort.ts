@@ -0,0 +1,237 @@
+import {
+  BufferedEvent,
+  LazySignal,
+  type LoggerInterface,
+  type NotAvailable,
+} from "@lmstudio/lms-common";
+import { type LLMPort } from "@lmstudio/lms-llm-backend-interface";
+import { type LLMDescriptor, type LLMModelSpecifier } from "@lmstudio/lms-shared-types";
+
+/**
+ * A channel opened on a {@link StubLLMPort}. Tests use it to play the role of LM Studio.
+ */
+export interface StubChannel {
+  endpoint: string;
+  param: any;
+  /**
+   * The packets the client sent on this channel.
+   */
+  sent: Array<any>;
+  /**
+   * Sends a packet to the client.
+   */
+  emit(message: any): void;
+  /**
+   * Fails the channel with the given error.
+   */
+  fail(error: Error): void;
+}
+
+export interface StubLLMPort {
+  port: LLMPort;
+  channels: Array<StubChannel>;
+  rpcCalls: Array<{ endpoint: string; param: any }>;
+  /**
+   * Sets what LM Studio does when a channel is opened on the given endpoint. The handler is called
+   * asynchronously, after the client finished opening the channel.
+   */
+  handleChannel(endpoint: string, handler: (channel: StubChannel) => void): void;
+  /**
+   * Sets what LM Studio returns (or throws) when the given RPC endpoint is called.
+   */
+  handleRpc(endpoint: string, handler: (param: any) => any): void;
+  /**
+   * Sets the value of every signal created on the given endpoint whose creation parameter
+   * satisfies `matches`.
+   */
+  setSignal(endpoint: string, value: any, matches?: (param: any) => boolean): void;
+  /**
+   * Makes the stub behave as if the given models are loaded: `listLoaded`, `getModelInfo` and the
+   * `loadedModels` signal report them. Queries are resolved the same way as LM Studio does.
+   */
+  setLoadedModels(models: Array<StubLoadedModel>): void;
+}
+
+export interface StubLoadedModel {
+  sessionIdentifier: string;
+  descriptor: LLMDescriptor;
+}
+
+/**
+ * Creates a fake {@link LLMPort} for testing the client without LM Studio.
+ */
+export function createStubLLMPort(): StubLLMPort {
+  const channelHandlers = new Map<string, (channel: StubChannel) => void>();
+  const rpcHandlers = new Map<string, (param: any) => any>();
+  const signals: Array<{
+    endpoint: string;
+    param: any;
+    signal: LazySignal<unknown | NotAvailable>;
+    set: ((value: any) => void) | null;
+    value: unknown | NotAvailable;
+  }> = [];
+  // Signals created after `setSignal` start with the value that was set.
+  const signalValues: Array<{ endpoint: string; value: any; matches: (param: any) => boolean }> =
+    [];
+  const stub: StubLLMPort = {
+    port: {
+      createChannel(endpoint: string, param: any, onMessage?: (message: any) => void) {
+        const [onError, emitOnError] = BufferedEvent.create<Error>();
+        let closed = false;
+        const channel: StubChannel = {
+          endpoint,
+          param,
+          sent: [],
+          emit: message => {
+            if (!closed) {
+              onMessage?.(message);
+            }
+          },
+          fail: error => {
+            if (!closed) {
+              closed = true;
+              emitOnError(error);
+            }
+          },
+        };
+        stub.channels.push(channel);
+        const handler = channelHandlers.get(endpoint);
+        if (handler !== undefined) {
+          setTimeout(() => handler(channel), 0);
+        }
+        return {
+          send: (message: any) => channel.sent.push(message),
+          onError,
+        };
+      },
+      async callRpc(endpoint: string, param: any) {
+        stub.rpcCalls.push({ endpoint, param });
+        const handler = rpcHandlers.get(endpoint);
+        if (handler === undefined) {
+          throw new Error(`No stub for RPC ${endpoint}`);
+        }
+        return handler(param);
+      },
+      createSignal(endpoint: string, param: any) {
+        const entry = {
+          endpoint,
+          param,
+          signal: null as any,
+          set: null as ((value: any) => void) | null,
+          value: LazySignal.NOT_AVAILABLE as unknown,
+        };
+        for (const value of signalValues) {
+          if (value.endpoint === endpoint && value.matches(param)) {
+            entry.value = value.value;
+          }
+        }
+        entry.signal = LazySignal.createWithoutInitialValue(setDownstream => {
+          entry.set = value => setDownstream(value);
+          // Like LM Studio, the current value arrives after the subscription is made.
+          setTimeout(() => {
+            if (entry.set !== null && entry.value !== LazySignal.NOT_AVAILABLE) {
+              setDownstream(entry.value);
+            }
+          }, 0);
+          return () => {
+            entry.set = null;
+          };
+        });
+        signals.push(entry);
+        return entry.signal;
+      },
+    } as unknown as LLMPort,
+    channels: [],
+    rpcCalls: [],
+    handleChannel: (endpoint, handler) => channelHandlers.set(endpoint, handler),
+    handleRpc: (endpoint, handler) => rpcHandlers.set(endpoint, handler),
+    setSignal: (endpoint, value, matches = () => true) => {
+      signalValues.push({ endpoint, value, matches });
+      for (const entry of signals) {
+        if (entry.endpoint === endpoint && matches(entry.param)) {
+          entry.value = value;
+          entry.set?.(value);
+        }
+      }
+    },
+    setLoadedModels: models => {
+      const find = (specifier: LLMModelSpecifier) =>
+        models.find(({ sessionIdentifier, descriptor }) => {
+          if (specifier.type === "sessionIdentifier") {
+            return specifier.sessionIdentifier === sessionIdentifier;
+          }
+          const { identifier, path } = specifier.query;
+          return (
+            (identifier === undefined || descriptor.identifier === identifier) &&
+            (path === undefined ||
+              descriptor.path === path ||
+              descriptor.path.startsWith(path + "/"))
+          );
+        });
+      stub.handleRpc("listLoaded", () => models.map(({ descriptor }) => descriptor));
+      stub.handleRpc("getModelInfo", ({ specifier, throwIfNotFound }) => {
+        const model = find(specifier);
+        if (model === undefined && throwIfNotFound) {
+          throw new Error("No model found");
+        }
+        return model;
+      });
+      stub.setSignal("loadedModels", models);
+    },
+  };
+  return stub;
+}
+
+/**
+ * Waits until the stub has delivered everything that is scheduled, such as the current value of a
+ * newly subscribed signal.
+ */
+export function flushStub() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * A logger that discards everything, for tests that exercise logging code paths.
+ */
+export const silentLogger: LoggerInterface = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+};
+
+/**
+ * Makes an {@link LLMDescriptor} for tests.
+ */
+export function makeTestDescriptor(
+  identifier: string,
+  path = identifier,
+  overrides: Partial<LLMDescriptor> = {},
+): LLMDescriptor {
+  return {
+    identifier,
+    path,
+    architecture: "llama",
+    parametersCount: 8_000_000_000,
+    quantization: "Q4_K_M",
+    trainedContextLength: 8192,
+    loadConfig: { contextLength: 4096 },
+    sizeBytes: 4_000_000_000,
+    capabilities: { vision: false, toolUse: true, fim: false },
+    ...overrides,
+  };
+}
+
+/**
+ * Makes the packet LM Studio sends when a prediction finishes.
+ */
+export function makeSuccessPacket(
+  modelInfo: LLMDescriptor,
+  stopReason: "eosFound" | "userStopped" | "toolCalls" = "eosFound",
+) {
+  return {
+    type: "success",
+    stats: { stopReason },
+    modelInfo,
+  };
+}
@@ -0,0 +1,46 @@
+import { startTimeLimit } from "./timeLimit";
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe("startTimeLimit", () => {
+  test("should call the callback once the timeout is reached", async () => {
+    const onTimeLimitReached = jest.fn();
+    startTimeLimit({ timeoutMs: 10 }, onTimeLimitReached);
+    await sleep(30);
+    expect(onTimeLimitReached).toHaveBeenCalledTimes(1);
+  });
+
+  test("should use whichever of timeoutMs and deadline comes first", async () => {
+    const onTimeLimitReached = jest.fn();
+    const stop = startTimeLimit(
+      { timeoutMs: 60_000, deadline: Date.now() + 10 },
+      onTimeLimitReached,
+    );
+    await sleep(30);
+    expect(onTimeLimitReached).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  test("should not call the callback once stopped", async () => {
+    const onTimeLimitReached = jest.fn();
+    const stop = startTimeLimit({ timeoutMs: 10 }, onTimeLimitReached);
+    stop();
+    await sleep(30);
+    expect(onTimeLimitReached).not.toHaveBeenCalled();
+  });
+
+  test("should not fire right away for time limits beyond the maximum timer delay", async () => {
+    const onTimeLimitReached = jest.fn();
+    const stopTimeout = startTimeLimit({ timeoutMs: 2 ** 40 }, onTimeLimitReached);
+    const stopDeadline = startTimeLimit(
+      { deadline: new Date(Date.now() + 2 ** 40) },
+      onTimeLimitReached,
+    );
+    await sleep(30);
+    expect(onTimeLimitReached).not.toHaveBeenCalled();
+    stopTimeout();
+    stopDeadline();
+  });
+});
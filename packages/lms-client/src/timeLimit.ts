@@ -0,0 +1,58 @@
+import { TimeoutTracker } from "@lmstudio/lms-common";
+import { z } from "zod";
+
+/**
+ * Options to limit how long an operation may take. If both are set, whichever comes first applies.
+ * If neither is set, there is no time limit.
+ *
+ * What happens once the time limit is reached depends on the operation, and is described by the
+ * options that extend this interface.
+ *
+ * @public
+ */
+export interface TimeLimitOpts {
+  /**
+   * The maximum time, in milliseconds, counted from when the operation starts.
+   */
+  timeoutMs?: number;
+  /**
+   * The time at which the operation must be finished, as a `Date` or as a number of milliseconds
+   * since the epoch.
+   */
+  deadline?: Date | number;
+}
+export const timeLimitOptsShape = {
+  timeoutMs: z.number().min(0).optional(),
+  deadline: z.union([z.date(), z.number()]).optional(),
+};
+
+const maxTimerDelayMs = 2 ** 31 - 1;
+
+/**
+ * Calls `onTimeLimitReached` once the time limit specified by `timeoutMs` and/or `deadline` is
+ * reached (or right away if it already is). Returns a function that stops the timer, which should
+ * be called once the operation finishes.
+ */
+export function startTimeLimit(
+  { timeoutMs, deadline }: TimeLimitOpts,
+  onTimeLimitReached: () => void,
+) {
+  const remainingMs = Math.min(
+    timeoutMs ?? Infinity,
+    deadline === undefined ? Infinity : new Date(deadline).getTime() - Date.now(),
+  );
+  if (remainingMs === Infinity) {
+    return () => {};
+  }
+  // Timers fire right away when given more than this, so longer time limits are clamped to it
+  // (about 24.8 days).
+  const tracker = new TimeoutTracker(Math.min(Math.max(0, remainingMs), maxTimerDelayMs));
+  tracker.triggeredEvent.subscribeOnce(() => {
+    if (tracker.started) {
+      tracker.stop();
+      onTimeLimitReached();
+    }
+  });
+  tracker.start();
+  return () => tracker.stop();
+}
@@ -92,4 +92,46 @@ describe("StreamablePromise", () => {
 
     expect(fragments).toEqual([1]);
   });
+
+  it("should yield all fragments to a slow consumer after finishing", async () => {
+    const { streamablePromise, push, finished } = TestStreamablePromise.create();
+    (async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      push(1);
+      push(2);
+      push(3);
+      finished();
+    })();
+
+    const fragments: number[] = [];
+    for await (const fragment of streamablePromise) {
+      fragments.push(fragment);
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    expect(fragments).toEqual([1, 2, 3]);
+    expect(await streamablePromise).toEqual([1, 2, 3]);
+  });
+
+  it("should yield buffered fragments before throwing the error", async () => {
+    const { streamablePromise, push, finished } = TestStreamablePromise.create();
+    (async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      push(1);
+      push(2);
+      finished(new Error("Test error"));
+    })();
+
+    const fragments: number[] = [];
+    await expect(
+      (async () => {
+        for await (const fragment of streamablePromise) {
+          fragments.push(fragment);
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+      })(),
+    ).rejects.toThrow("Test error");
+
+    expect(fragments).toEqual([1, 2]);
+  });
 });
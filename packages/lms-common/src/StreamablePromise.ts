@@ -153,5 +153,14 @@ export abstract class StreamablePromise<TFragment, TFinal>
         i++;
       }
     }
+    // The stream may have finished while the consumer was still processing a fragment, in which
+    // case the fragments pushed in the meantime are still in the buffer.
+    while (i < this.buffer.length) {
+      yield this.buffer[i];
+      i++;
+    }
+    if (this.status === "rejected") {
+      await this.promiseFinal;
+    }
   }
 }
@@ -0,0 +1,57 @@
+import { WaitQueue } from "./WaitQueue";
+
+async function runTasks(queue: WaitQueue, tasksCount: number) {
+  let running = 0;
+  let maxRunning = 0;
+  const startOrder: Array<number> = [];
+  await Promise.all(
+    Array.from({ length: tasksCount }, async (_, index) => {
+      const holder = await queue.enterQueue().wait();
+      startOrder.push(index);
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      holder.drop();
+    }),
+  );
+  return { maxRunning, startOrder };
+}
+
+describe("WaitQueue", () => {
+  it("should serve one holder at a time by default", async () => {
+    const { maxRunning, startOrder } = await runTasks(new WaitQueue(), 4);
+    expect(maxRunning).toBe(1);
+    expect(startOrder).toEqual([0, 1, 2, 3]);
+  });
+
+  it("should serve at most `capacity` holders at the same time", async () => {
+    const { maxRunning } = await runTasks(new WaitQueue(undefined, 3), 10);
+    expect(maxRunning).toBe(3);
+  });
+
+  it("should serve pagers in FIFO order", async () => {
+    const { startOrder } = await runTasks(new WaitQueue(undefined, 2), 6);
+    expect(startOrder).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("should serve lower priorities first", async () => {
+    const queue = new WaitQueue();
+    const holder = await queue.enterQueue().wait();
+    const served: Array<string> = [];
+    const serve = async (priority: number, name: string) => {
+      const holder = await queue.enterQueue(priority).wait();
+      served.push(name);
+      holder.drop();
+    };
+    const waiting = [serve(1, "low"), serve(0, "high")];
+    holder.drop();
+    await Promise.all(waiting);
+    expect(served).toEqual(["high", "low"]);
+  });
+
+  it("should reject invalid capacities", () => {
+    expect(() => new WaitQueue(undefined, 0)).toThrow(/Invalid capacity/);
+    expect(() => new WaitQueue(undefined, 1.5)).toThrow(/Invalid capacity/);
+  });
+});
@@ -31,12 +31,26 @@ export class QueueClearedError extends Error {
  * release the resource. Alternatively, the `using` keyword can be used to automatically release the
  * resource when the block is exited.
  *
+ * By default, only one holder can exist at a time. A `capacity` can be specified to allow multiple
+ * holders at the same time (like a restaurant with multiple tables), which is useful for limiting
+ * concurrency.
+ *
  * Queue can be exited with the {@link Pager#exit} method.
  */
 export class WaitQueue {
   private readonly logger: SimpleLogger;
-  public constructor(parentLogger?: LoggerInterface) {
+  /**
+   * @param parentLogger - The logger to use as the parent of the logger of this queue.
+   * @param capacity - The maximum number of holders that can exist at the same time. Defaults to 1.
+   */
+  public constructor(
+    parentLogger?: LoggerInterface,
+    private readonly capacity = 1,
+  ) {
     this.logger = new SimpleLogger("WaitQueue", parentLogger);
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Invalid capacity ${capacity}, must be a positive integer`);
+    }
   }
   private readonly pagers: Array<Pager> = [];
   private readonly finalizationRegistry = new FinalizationRegistry(() => {
@@ -45,10 +59,10 @@ export class WaitQueue {
       and should not be relied upon. Please make sure to always drop the holder when you are done
       with it.
     `;
-    this.currentlyServing = null;
+    this.servingCount--;
     this.tryAdvancingQueue();
   });
-  private currentlyServing: Pager | null = null;
+  private servingCount = 0;
   /**
    * Enters the queue and returns a pager that can be waited on.
    *
@@ -62,14 +76,15 @@ export class WaitQueue {
     return pager;
   }
   private tryAdvancingQueue() {
-    if (this.currentlyServing === null) {
+    while (this.servingCount < this.capacity) {
       const pager = this.pagers.shift();
-      if (pager !== undefined) {
-        this.currentlyServing = pager;
-        const holder = new Holder(this);
-        this.finalizationRegistry.register(holder, undefined, holder);
-        pager[resolvePager](holder);
+      if (pager === undefined) {
+        break;
       }
+      this.servingCount++;
+      const holder = new Holder(this);
+      this.finalizationRegistry.register(holder, undefined, holder);
+      pager[resolvePager](holder);
     }
   }
   public clearQueue(error: any = new QueueClearedError()) {
@@ -81,7 +96,7 @@ export class WaitQueue {
   /** @internal */
   public [dropHolder](holder: Holder) {
     this.finalizationRegistry.unregister(holder);
-    this.currentlyServing = null;
+    this.servingCount--;
     this.tryAdvancingQueue();
   }
   /** @internal */
@@ -15,6 +15,7 @@ export { makePrettyError, makeTitledPrettyError } from "./makePrettyError";
 export { makePromise } from "./makePromise";
 export { makeSetter, makeSetterWithPatches, Setter, WriteTag } from "./makeSetter";
 export { OWLSignal } from "./OWLSignal";
+export { parsePartialJSON } from "./parsePartialJSON";
 export { removeUndefinedValues } from "./removeUndefinedValues";
 export {
   createResultSchema,
@@ -0,0 +1,68 @@
+import { parsePartialJSON } from "./parsePartialJSON";
+
+describe("parsePartialJSON", () => {
+  it("should parse complete JSON the same way as JSON.parse", () => {
+    const inputs = [
+      '{"a": 1, "b": [true, false, null], "c": {"d": "e\\n\\u0041"}}',
+      "[]",
+      "{}",
+      '"string"',
+      "-12.5e3",
+      "  [ 1 , 2 ]  ",
+    ];
+    for (const input of inputs) {
+      expect(parsePartialJSON(input)).toEqual(JSON.parse(input));
+    }
+  });
+
+  it("should return undefined for empty input", () => {
+    expect(parsePartialJSON("")).toBeUndefined();
+    expect(parsePartialJSON("  \n")).toBeUndefined();
+  });
+
+  it("should close unclosed objects and arrays", () => {
+    expect(parsePartialJSON('{"a": [1, 2')).toEqual({ a: [1, 2] });
+    expect(parsePartialJSON('{"a": {"b": 1},')).toEqual({ a: { b: 1 } });
+    expect(parsePartialJSON("[[1], [")).toEqual([[1], []]);
+  });
+
+  it("should include unterminated strings", () => {
+    expect(parsePartialJSON('{"name": "Al')).toEqual({ name: "Al" });
+    expect(parsePartialJSON('["a\\')).toEqual(["a"]);
+    expect(parsePartialJSON('["\\u00')).toEqual([""]);
+  });
+
+  it("should leave out keys without values", () => {
+    expect(parsePartialJSON('{"a": 1, "b')).toEqual({ a: 1 });
+    expect(parsePartialJSON('{"a": 1, "b"')).toEqual({ a: 1 });
+    expect(parsePartialJSON('{"a": 1, "b": ')).toEqual({ a: 1 });
+  });
+
+  it("should leave out incomplete literals", () => {
+    expect(parsePartialJSON("[true, fa")).toEqual([true]);
+    expect(parsePartialJSON('{"a": nu')).toEqual({});
+    expect(parsePartialJSON("t")).toBeUndefined();
+  });
+
+  it("should include numbers at the end of the input", () => {
+    expect(parsePartialJSON("[1, 23")).toEqual([1, 23]);
+    expect(parsePartialJSON("[1.")).toEqual([1]);
+    expect(parsePartialJSON("[1e")).toEqual([1]);
+    expect(parsePartialJSON("[-")).toEqual([]);
+  });
+
+  it("should throw on invalid JSON", () => {
+    expect(() => parsePartialJSON("{a")).toThrow(SyntaxError);
+    expect(() => parsePartialJSON("[1 2")).toThrow(SyntaxError);
+    expect(() => parsePartialJSON("[1.x]")).toThrow(SyntaxError);
+    expect(() => parsePartialJSON('"\\x"')).toThrow(SyntaxError);
+    expect(() => parsePartialJSON("nope")).toThrow(SyntaxError);
+    expect(() => parsePartialJSON("{} {")).toThrow(SyntaxError);
+  });
+
+  it("should not be susceptible to prototype pollution", () => {
+    const result = parsePartialJSON('{"__proto__": {"polluted": true}}') as any;
+    expect(result.polluted).toBeUndefined();
+    expect(Object.prototype.hasOwnProperty.call(result, "__proto__")).toBe(true);
+  });
+});
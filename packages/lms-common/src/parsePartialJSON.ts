@@ -0,0 +1,245 @@
+const noValue = Symbol("noValue");
+type NoValue = typeof noValue;
+
+const literals: ReadonlyArray<[string, unknown]> = [
+  ["true", true],
+  ["false", false],
+  ["null", null],
+];
+
+const escapes: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  "b": "\b",
+  "f": "\f",
+  "n": "\n",
+  "r": "\r",
+  "t": "\t",
+};
+
+/**
+ * Parses a string that may be the beginning of a JSON document, such as the output of a model that
+ * is still generating JSON. Everything that has been generated so far is included in the result:
+ *
+ * - Unclosed objects and arrays are closed.
+ * - Unterminated strings are included with the content received so far.
+ * - Numbers at the very end of the input are included as far as they can be parsed.
+ * - Object keys without a value yet, and incomplete `true`/`false`/`null` literals, are left out.
+ *
+ * Valid, complete JSON produces the same result as `JSON.parse`.
+ *
+ * @param input - The (possibly incomplete) JSON string.
+ * @returns The parsed value, or `undefined` if the input does not contain any value yet.
+ * @throws A `SyntaxError` if the input cannot be the beginning of a valid JSON document.
+ * @example
+ * ```typescript
+ * parsePartialJSON('{"name": "Al'); // { name: "Al" }
+ * parsePartialJSON('[1, 2, tr'); // [1, 2]
+ * ```
+ */
+export function parsePartialJSON(input: string): unknown {
+  let index = 0;
+
+  function fail(): never {
+    throw new SyntaxError(
+      `Unexpected character ${JSON.stringify(input[index])} at position ${index} in JSON`,
+    );
+  }
+  function isAtEnd() {
+    return index >= input.length;
+  }
+  function skipWhitespace() {
+    while (!isAtEnd() && " \t\n\r".includes(input[index])) {
+      index++;
+    }
+  }
+
+  function parseString(): { value: string; complete: boolean } {
+    index++; // Opening quote
+    let value = "";
+    while (!isAtEnd()) {
+      const char = input[index];
+      if (char === '"') {
+        index++;
+        return { value, complete: true };
+      }
+      if (char !== "\\") {
+        value += char;
+        index++;
+        continue;
+      }
+      const escaped = input[index + 1];
+      if (escaped === undefined) {
+        break;
+      }
+      if (escaped === "u") {
+        const hex = input.slice(index + 2, index + 6);
+        if (!/^[0-9a-fA-F]*$/.test(hex)) {
+          index += 2;
+          fail();
+        }
+        if (hex.length < 4) {
+          break;
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        index += 6;
+        continue;
+      }
+      if (!(escaped in escapes)) {
+        index++;
+        fail();
+      }
+      value += escapes[escaped];
+      index += 2;
+    }
+    index = input.length;
+    return { value, complete: false };
+  }
+
+  function parseNumber(): number | NoValue {
+    const pattern = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    pattern.lastIndex = index;
+    const match = pattern.exec(input);
+    // Whatever follows the number may be the rest of a number that is still being generated.
+    const rest = /[\d.eE+-]*$/y;
+    rest.lastIndex = match === null ? index : index + match[0].length;
+    const isIncomplete = rest.test(input);
+    if (match === null) {
+      if (isIncomplete) {
+        index = input.length;
+        return noValue;
+      }
+      fail();
+    }
+    index = isIncomplete ? input.length : index + match[0].length;
+    return Number(match[0]);
+  }
+
+  function parseLiteral(): unknown {
+    for (const [literal, value] of literals) {
+      if (input.startsWith(literal, index)) {
+        index += literal.length;
+        return value;
+      }
+      if (literal.startsWith(input.slice(index))) {
+        index = input.length;
+        return noValue;
+      }
+    }
+    fail();
+  }
+
+  function parseArray(): Array<unknown> {
+    index++; // Opening bracket
+    const array: Array<unknown> = [];
+    skipWhitespace();
+    if (input[index] === "]") {
+      index++;
+      return array;
+    }
+    for (;;) {
+      skipWhitespace();
+      if (isAtEnd()) {
+        return array;
+      }
+      const value = parseValue();
+      if (value !== noValue) {
+        array.push(value);
+      }
+      skipWhitespace();
+      if (isAtEnd()) {
+        return array;
+      }
+      if (input[index] === "]") {
+        index++;
+        return array;
+      }
+      if (input[index] !== ",") {
+        fail();
+      }
+      index++;
+    }
+  }
+
+  function parseObject(): Record<string, unknown> {
+    index++; // Opening brace
+    const object: Record<string, unknown> = {};
+    skipWhitespace();
+    if (input[index] === "}") {
+      index++;
+      return object;
+    }
+    for (;;) {
+      skipWhitespace();
+      if (isAtEnd()) {
+        return object;
+      }
+      if (input[index] !== '"') {
+        fail();
+      }
+      const key = parseString();
+      skipWhitespace();
+      if (!key.complete || isAtEnd()) {
+        return object;
+      }
+      if (input[index] !== ":") {
+        fail();
+      }
+      index++;
+      skipWhitespace();
+      if (isAtEnd()) {
+        return object;
+      }
+      const value = parseValue();
+      if (value !== noValue) {
+        // Define the property instead of assigning it, so that a "__proto__" key behaves the same
+        // as in JSON.parse.
+        Object.defineProperty(object, key.value, {
+          value,
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      skipWhitespace();
+      if (isAtEnd()) {
+        return object;
+      }
+      if (input[index] === "}") {
+        index++;
+        return object;
+      }
+      if (input[index] !== ",") {
+        fail();
+      }
+      index++;
+    }
+  }
+
+  function parseValue(): unknown {
+    const char = input[index];
+    if (char === "{") {
+      return parseObject();
+    } else if (char === "[") {
+      return parseArray();
+    } else if (char === '"') {
+      return parseString().value;
+    } else if (char === "-" || (char >= "0" && char <= "9")) {
+      return parseNumber();
+    } else {
+      return parseLiteral();
+    }
+  }
+
+  skipWhitespace();
+  if (isAtEnd()) {
+    return undefined;
+  }
+  const value = parseValue();
+  skipWhitespace();
+  if (!isAtEnd()) {
+    fail();
+  }
+  return value === noValue ? undefined : value;
+}
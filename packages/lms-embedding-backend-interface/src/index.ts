@@ -0,0 +1,73 @@
+import { BackendInterface } from "@lmstudio/lms-communication";
+import { type InferClientPort } from "@lmstudio/lms-communication-client";
+import {
+  embeddingDescriptorSchema,
+  embeddingLoadModelConfigSchema,
+  embeddingModelSpecifierSchema,
+} from "@lmstudio/lms-shared-types";
+import { z } from "zod";
+
+export function createEmbeddingBackendInterface() {
+  return new BackendInterface()
+    .addRpcEndpoint("echo", {
+      parameter: z.string(),
+      returns: z.string(),
+    })
+    .addChannelEndpoint("loadModel", {
+      creationParameter: z.object({
+        path: z.string(),
+        identifier: z.string().optional(),
+        config: embeddingLoadModelConfigSchema,
+        noHup: z.boolean(),
+      }),
+      toClientPacket: z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("progress"),
+          progress: z.number(),
+        }),
+        z.object({
+          type: z.literal("success"),
+          sessionIdentifier: z.string(),
+        }),
+      ]),
+      toServerPacket: z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("cancel"),
+        }),
+      ]),
+    })
+    .addRpcEndpoint("unloadModel", {
+      parameter: z.object({
+        identifier: z.string(),
+      }),
+      returns: z.void(),
+    })
+    .addRpcEndpoint("embedStrings", {
+      parameter: z.object({
+        modelSpecifier: embeddingModelSpecifierSchema,
+        inputStrings: z.array(z.string()),
+      }),
+      returns: z.object({
+        embeddings: z.array(z.array(z.number())),
+      }),
+    })
+    .addRpcEndpoint("listLoaded", {
+      parameter: z.undefined(),
+      returns: z.array(embeddingDescriptorSchema),
+    })
+    .addRpcEndpoint("getModelInfo", {
+      parameter: z.object({
+        specifier: embeddingModelSpecifierSchema,
+        throwIfNotFound: z.boolean(),
+      }),
+      returns: z
+        .object({
+          sessionIdentifier: z.string(),
+          descriptor: embeddingDescriptorSchema,
+        })
+        .optional(),
+    });
+}
+
+export type EmbeddingPort = InferClientPort<typeof createEmbeddingBackendInterface>;
+export type EmbeddingBackendInterface = ReturnType<typeof createEmbeddingBackendInterface>;
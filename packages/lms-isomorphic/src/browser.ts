@@ -1,3 +1,6 @@
+export { bytesToBase64 } from "./browser/bytesToBase64";
 export { generateRandomBase64 } from "./browser/generateRandomBase64";
+export { getFileSize, getFileSizeSync } from "./browser/getFileSize";
+export { readFileAsBase64, readFileAsBase64Sync } from "./browser/readFileAsBase64";
 export { terminalSize } from "./browser/terminalSize";
 export { WebSocket } from "./browser/WebSocket";
@@ -0,0 +1,7 @@
+export async function getFileSize(_filePath: string): Promise<number> {
+  throw new Error("Reading files from a path is not supported in the browser.");
+}
+
+export function getFileSizeSync(_filePath: string): number {
+  throw new Error("Reading files from a path is not supported in the browser.");
+}
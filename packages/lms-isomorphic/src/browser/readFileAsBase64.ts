@@ -0,0 +1,7 @@
+export async function readFileAsBase64(_filePath: string): Promise<string> {
+  throw new Error("Reading files from a path is not supported in the browser.");
+}
+
+export function readFileAsBase64Sync(_filePath: string): string {
+  throw new Error("Reading files from a path is not supported in the browser.");
+}
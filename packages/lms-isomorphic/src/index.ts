@@ -1,3 +1,6 @@
+export { bytesToBase64 } from "./index/bytesToBase64";
 export { generateRandomBase64 } from "./index/generateRandomBase64";
+export { getFileSize, getFileSizeSync } from "./index/getFileSize";
+export { readFileAsBase64, readFileAsBase64Sync } from "./index/readFileAsBase64";
 export { terminalSize } from "./index/terminalSize";
 export { WebSocket } from "./index/WebSocket";
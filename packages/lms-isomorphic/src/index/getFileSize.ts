@@ -0,0 +1,10 @@
+import { statSync } from "fs";
+import { stat } from "fs/promises";
+
+export async function getFileSize(filePath: string) {
+  return (await stat(filePath)).size;
+}
+
+export function getFileSizeSync(filePath: string) {
+  return statSync(filePath).size;
+}
@@ -0,0 +1,11 @@
+import { readFileSync } from "fs";
+import { readFile } from "fs/promises";
+
+export async function readFileAsBase64(filePath: string) {
+  const buffer = await readFile(filePath);
+  return buffer.toString("base64");
+}
+
+export function readFileAsBase64Sync(filePath: string) {
+  return readFileSync(filePath).toString("base64");
+}
@@ -1,16 +1,41 @@
 import { BackendInterface } from "@lmstudio/lms-communication";
 import { type InferClientPort } from "@lmstudio/lms-communication-client";
 import {
-  llmChatHistorySchema,
+  llmApplyPromptTemplateOptsSchema,
   llmDescriptorSchema,
+  llmLoadEstimateSchema,
   llmLoadModelConfigSchema,
+  llmLoadProgressEventSchema,
+  llmLogprobsSettingSchema,
   llmModelSpecifierSchema,
   llmPredictionStatsSchema,
+  llmPromptTemplateSchema,
+  llmResolvedChatHistorySchema,
+  llmSavedStateInfoSchema,
   llmStructuredPredictionSettingSchema,
+  llmTokenLogprobSchema,
+  llmToolCallRequestSchema,
+  llmToolDefinitionSchema,
+  reasonableKeyStringSchema,
 } from "@lmstudio/lms-shared-types";
 import { llmFullPredictionConfigSchema } from "@lmstudio/lms-shared-types/dist/llm/LLMPredictionConfig";
 import { z } from "zod";
 
+/**
+ * Input that is either a plain string, or a chat history that the prompt template of the model is
+ * applied to.
+ */
+const textOrChatHistoryInputSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("text"),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal("chatHistory"),
+    history: llmResolvedChatHistorySchema,
+  }),
+]);
+
 export function createLlmBackendInterface() {
   return new BackendInterface()
     .addRpcEndpoint("echo", {
@@ -26,9 +51,8 @@ export function createLlmBackendInterface() {
         noHup: z.boolean(),
       }),
       toClientPacket: z.discriminatedUnion("type", [
-        z.object({
+        llmLoadProgressEventSchema.extend({
           type: z.literal("progress"),
-          progress: z.number(),
         }),
         z.object({
           type: z.literal("success"),
@@ -41,6 +65,13 @@ export function createLlmBackendInterface() {
         }),
       ]),
     })
+    .addRpcEndpoint("estimateLoad", {
+      parameter: z.object({
+        path: z.string(),
+        config: llmLoadModelConfigSchema,
+      }),
+      returns: llmLoadEstimateSchema,
+    })
     .addRpcEndpoint("unloadModel", {
       parameter: z.object({
         identifier: z.string(),
@@ -50,14 +81,24 @@ export function createLlmBackendInterface() {
     .addChannelEndpoint("predict", {
       creationParameter: z.object({
         modelSpecifier: llmModelSpecifierSchema,
-        history: llmChatHistorySchema,
+        history: llmResolvedChatHistorySchema,
         config: llmFullPredictionConfigSchema,
         structured: llmStructuredPredictionSettingSchema.optional(),
+        tools: z.array(llmToolDefinitionSchema).optional(),
+        logprobs: llmLogprobsSettingSchema.optional(),
       }),
       toClientPacket: z.discriminatedUnion("type", [
         z.object({
           type: z.literal("fragment"),
           fragment: z.string(),
+          /**
+           * Only present if `logprobs` was requested. The tokens that make up this fragment.
+           */
+          tokens: z.array(llmTokenLogprobSchema).optional(),
+        }),
+        z.object({
+          type: z.literal("toolCallRequest"),
+          toolCallRequest: llmToolCallRequestSchema,
         }),
         z.object({
           type: z.literal("success"),
@@ -75,6 +116,90 @@ export function createLlmBackendInterface() {
       parameter: z.undefined(),
       returns: z.array(llmDescriptorSchema),
     })
+    .addSignalEndpoint("loadedModels", {
+      creationParameter: z.undefined(),
+      signalData: z.array(
+        z.object({
+          sessionIdentifier: z.string(),
+          descriptor: llmDescriptorSchema,
+        }),
+      ),
+    })
+    .addRpcEndpoint("tokenize", {
+      parameter: z.object({
+        specifier: llmModelSpecifierSchema,
+        inputString: z.string(),
+      }),
+      returns: z.object({
+        tokens: z.array(z.number()),
+      }),
+    })
+    .addRpcEndpoint("detokenize", {
+      parameter: z.object({
+        specifier: llmModelSpecifierSchema,
+        tokens: z.array(z.number().int()),
+      }),
+      returns: z.object({
+        outputString: z.string(),
+      }),
+    })
+    .addRpcEndpoint("countTokens", {
+      parameter: z.object({
+        specifier: llmModelSpecifierSchema,
+        input: textOrChatHistoryInputSchema,
+      }),
+      returns: z.object({
+        tokensCount: z.number().int(),
+      }),
+    })
+    .addRpcEndpoint("getPromptTemplate", {
+      parameter: z.object({
+        specifier: llmModelSpecifierSchema,
+      }),
+      returns: llmPromptTemplateSchema,
+    })
+    .addRpcEndpoint("applyPromptTemplate", {
+      parameter: z.object({
+        specifier: llmModelSpecifierSchema,
+        history: llmResolvedChatHistorySchema,
+        opts: llmApplyPromptTemplateOptsSchema,
+      }),
+      returns: z.object({
+        formatted: z.string(),
+      }),
+    })
+    .addRpcEndpoint("saveState", {
+      parameter: z.object({
+        specifier: llmModelSpecifierSchema,
+        name: reasonableKeyStringSchema,
+        input: textOrChatHistoryInputSchema,
+      }),
+      returns: llmSavedStateInfoSchema,
+    })
+    .addRpcEndpoint("restoreState", {
+      parameter: z.object({
+        specifier: llmModelSpecifierSchema,
+        name: reasonableKeyStringSchema,
+      }),
+      returns: llmSavedStateInfoSchema,
+    })
+    .addRpcEndpoint("getLoadConfig", {
+      parameter: z.object({
+        specifier: llmModelSpecifierSchema,
+      }),
+      returns: llmLoadModelConfigSchema,
+    })
+    .addSignalEndpoint("modelInfo", {
+      creationParameter: z.object({
+        specifier: llmModelSpecifierSchema,
+      }),
+      signalData: z
+        .object({
+          sessionIdentifier: z.string(),
+          descriptor: llmDescriptorSchema,
+        })
+        .nullable(),
+    })
     .addRpcEndpoint("getModelInfo", {
       parameter: z.object({
         specifier: llmModelSpecifierSchema,
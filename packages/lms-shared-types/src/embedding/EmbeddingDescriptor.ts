@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+/**
+ * Describes a specific loaded embedding model.
+ *
+ * @public
+ */
+export interface EmbeddingDescriptor {
+  /**
+   * The identifier of the embedding model (Set when loading the model. Defaults to the same as the
+   * path.)
+   *
+   * Identifier identifies a currently loaded model.
+   */
+  identifier: string;
+  /**
+   * The path of the embedding model. (i.e. which model is this)
+   *
+   * An path is associated with a specific model that can be loaded.
+   */
+  path: string;
+}
+export const embeddingDescriptorSchema = z.object({
+  identifier: z.string(),
+  path: z.string(),
+});
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import {
+  llmAccelerationOffloadSchema,
+  type LLMAccelerationOffload,
+} from "../llm/LLMLoadModelConfig";
+
+/** @public */
+export interface EmbeddingLoadModelConfig {
+  /**
+   * The maximum number of tokens in a single input string. Longer inputs will be truncated.
+   */
+  contextLength?: number;
+
+  /**
+   * How much of the model's work should be offloaded to the GPU. See {@link LLMAccelerationOffload}
+   * for the allowed values.
+   */
+  gpuOffload?: LLMAccelerationOffload;
+}
+
+export const embeddingLoadModelConfigSchema = z.object({
+  contextLength: z.number().int().min(0).optional(),
+  gpuOffload: llmAccelerationOffloadSchema.optional(),
+});
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { reasonableKeyStringSchema } from "../reasonable";
+
+/**
+ * Represents a query for a loaded embedding model.
+ *
+ * @public
+ */
+export interface EmbeddingModelQuery {
+  /**
+   * If specified, the model must have exactly this identifier.
+   *
+   * Note: The identifier of a model is set when loading the model. It defaults to the filename of
+   * the model if not specified. If you wish to query a model by its path, you should specify the
+   * path instead of the identifier.
+   */
+  identifier?: string;
+  /**
+   * If specified, the model must have this path.
+   *
+   * When specifying the model path, you can use the following format:
+   *
+   * `<publisher>/<repo>[/model_file]`
+   *
+   * If `model_file` is not specified, any quantization of the model will match this query.
+   */
+  path?: string;
+}
+export const embeddingModelQuerySchema = z.object({
+  identifier: reasonableKeyStringSchema.optional(),
+  path: reasonableKeyStringSchema.optional(),
+});
+
+export const embeddingModelSpecifierSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("query"),
+    query: embeddingModelQuerySchema,
+  }),
+  z.object({
+    type: z.literal("sessionIdentifier"),
+    sessionIdentifier: z.string(),
+  }),
+]);
+export type EmbeddingModelSpecifier = z.infer<typeof embeddingModelSpecifierSchema>;
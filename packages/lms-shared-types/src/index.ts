@@ -10,6 +10,17 @@ export {
   diagnosticsLogEventSchema,
 } from "./diagnostics/DiagnosticsLogEvent";
 export { DownloadedModel, downloadedModelSchema } from "./DownloadedModel";
+export { EmbeddingDescriptor, embeddingDescriptorSchema } from "./embedding/EmbeddingDescriptor";
+export {
+  EmbeddingLoadModelConfig,
+  embeddingLoadModelConfigSchema,
+} from "./embedding/EmbeddingLoadModelConfig";
+export {
+  EmbeddingModelQuery,
+  embeddingModelQuerySchema,
+  EmbeddingModelSpecifier,
+  embeddingModelSpecifierSchema,
+} from "./embedding/EmbeddingModelSpecifier";
 export {
   attachSerializedErrorData,
   ErrorDisplayData,
@@ -21,25 +32,56 @@ export {
 } from "./Error";
 export {
   LLMChatHistory,
+  LLMChatHistoryContentPart,
+  llmChatHistoryContentPartSchema,
+  LLMChatHistoryImageMimeType,
+  llmChatHistoryImageMimeTypeSchema,
+  LLMChatHistoryImagePart,
+  llmChatHistoryImagePartSchema,
   LLMChatHistoryMessage,
   llmChatHistoryMessageSchema,
   LLMChatHistoryRole,
   llmChatHistoryRoleSchema,
   llmChatHistorySchema,
+  LLMChatHistoryTextPart,
+  llmChatHistoryTextPartSchema,
+  LLMResolvedChatHistory,
+  llmResolvedChatHistorySchema,
+  maxChatHistoryImageSizeBytes,
 } from "./llm/LLMChatHistory";
-export { LLMDescriptor, llmDescriptorSchema } from "./llm/LLMDescriptor";
+export {
+  LLMCapabilities,
+  llmCapabilitiesSchema,
+  LLMDescriptor,
+  llmDescriptorSchema,
+} from "./llm/LLMDescriptor";
 export {
   LLMAccelerationOffload,
   llmAccelerationOffloadSchema,
+  LLMKVCacheQuantizationType,
+  llmKVCacheQuantizationTypeSchema,
   LLMLoadModelConfig,
   llmLoadModelConfigSchema,
+  LLMSpeculativeDecodingConfig,
+  llmSpeculativeDecodingConfigSchema,
 } from "./llm/LLMLoadModelConfig";
+export { LLMLoadEstimate, llmLoadEstimateSchema } from "./llm/LLMLoadEstimate";
+export {
+  LLMLoadProgressEvent,
+  llmLoadProgressEventSchema,
+  LLMLoadStage,
+  llmLoadStageSchema,
+  LLMMemoryEstimate,
+  llmMemoryEstimateSchema,
+} from "./llm/LLMLoadProgress";
 export {
   LLMModelQuery,
   llmModelQuerySchema,
   LLMModelSpecifier,
   llmModelSpecifierSchema,
 } from "./llm/LLMModelSpecifier";
+export { diffLLMLoadModelConfig, LLMLoadModelConfigDifference } from "./llm/diffLLMLoadModelConfig";
+export { findGbnfError, GbnfError } from "./llm/gbnf";
 export {
   LLMChatPredictionConfig,
   llmChatPredictionConfigSchema,
@@ -57,10 +99,35 @@ export {
   LLMPredictionStopReason,
   llmPredictionStopReasonSchema,
 } from "./llm/LLMPredictionStats";
+export {
+  LLMApplyPromptTemplateOpts,
+  llmApplyPromptTemplateOptsSchema,
+  LLMJinjaPromptTemplate,
+  llmJinjaPromptTemplateSchema,
+  LLMManualPromptTemplate,
+  llmManualPromptTemplateSchema,
+  LLMPromptTemplate,
+  llmPromptTemplateSchema,
+} from "./llm/LLMPromptTemplate";
 export {
   LLMStructuredPredictionSetting,
   llmStructuredPredictionSettingSchema,
 } from "./llm/LLMStructuredPredictionSetting";
+export { LLMSavedStateInfo, llmSavedStateInfoSchema } from "./llm/LLMSavedState";
+export {
+  LLMLogprobsSetting,
+  llmLogprobsSettingSchema,
+  LLMTokenCandidate,
+  llmTokenCandidateSchema,
+  LLMTokenLogprob,
+  llmTokenLogprobSchema,
+} from "./llm/LLMTokenLogprobs";
+export {
+  LLMToolCallRequest,
+  llmToolCallRequestSchema,
+  LLMToolDefinition,
+  llmToolDefinitionSchema,
+} from "./llm/LLMTool";
 export { reasonableKeyStringSchema } from "./reasonable";
 export {
   Accelerator,
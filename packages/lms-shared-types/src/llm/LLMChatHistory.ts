@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { llmToolCallRequestSchema, type LLMToolCallRequest } from "./LLMTool";
 
 /**
  * Represents a role in a specific message in the history. This is a string enum, and can only be
@@ -7,16 +8,109 @@ import { z } from "zod";
  * - `system`: Usually used for system prompts
  * - `user`: Used for user inputs / queries
  * - `assistant`: Used for assistant responses, usually generated AI, but can also be fed by a human
+ * - `tool`: Used for feeding the result of a tool call back to the model
  *
  * @public
  */
-export type LLMChatHistoryRole = string; // "system" | "user" | "assistant";
+export type LLMChatHistoryRole = string; // "system" | "user" | "assistant" | "tool";
 export const llmChatHistoryRoleSchema = z
   .string()
-  .refine(v => ["system", "user", "assistant"].includes(v), {
-    message: "Invalid role, must be one of 'system', 'user', or 'assistant'",
+  .refine(v => ["system", "user", "assistant", "tool"].includes(v), {
+    message: "Invalid role, must be one of 'system', 'user', 'assistant', or 'tool'",
   });
 
+/**
+ * The image formats that can be used in an image content part.
+ *
+ * @public
+ */
+export type LLMChatHistoryImageMimeType = "image/png" | "image/jpeg" | "image/webp" | "image/gif";
+export const llmChatHistoryImageMimeTypeSchema = z.enum([
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/gif",
+]);
+
+/**
+ * The maximum size of a single image in a chat history, in bytes.
+ */
+export const maxChatHistoryImageSizeBytes = 20 * 1024 * 1024;
+
+/**
+ * A part of a message that contains text.
+ *
+ * @public
+ */
+export interface LLMChatHistoryTextPart {
+  type: "text";
+  text: string;
+}
+export const llmChatHistoryTextPartSchema = z.object({
+  type: z.literal("text"),
+  text: z.string(),
+});
+
+/**
+ * A part of a message that contains an image. Only usable with models that support vision. The
+ * image can be provided in one of the following ways:
+ *
+ * - `base64`: The base64 encoded content of the image, along with its mime type.
+ * - `filePath`: The path to an image file. The file is read by the SDK, so it must be accessible
+ *   to the process the SDK is running in. (Not available in the browser.) If `mimeType` is not
+ *   provided, it is inferred from the file extension.
+ * - `buffer`: The raw bytes of the image (for example, a Node.js `Buffer`), along with its mime
+ *   type.
+ *
+ * @public
+ */
+export type LLMChatHistoryImagePart =
+  | {
+      type: "image";
+      base64: string;
+      mimeType: LLMChatHistoryImageMimeType;
+    }
+  | {
+      type: "image";
+      filePath: string;
+      mimeType?: LLMChatHistoryImageMimeType;
+    }
+  | {
+      type: "image";
+      buffer: Uint8Array;
+      mimeType: LLMChatHistoryImageMimeType;
+    };
+const llmChatHistoryBase64ImagePartSchema = z.object({
+  type: z.literal("image"),
+  base64: z.string(),
+  mimeType: llmChatHistoryImageMimeTypeSchema,
+});
+export const llmChatHistoryImagePartSchema = z.union([
+  llmChatHistoryBase64ImagePartSchema,
+  z.object({
+    type: z.literal("image"),
+    filePath: z.string().min(1),
+    mimeType: llmChatHistoryImageMimeTypeSchema.optional(),
+  }),
+  z.object({
+    type: z.literal("image"),
+    buffer: z.instanceof(Uint8Array),
+    mimeType: llmChatHistoryImageMimeTypeSchema,
+  }),
+]);
+
+/**
+ * A part of the content of a message. See {@link LLMChatHistoryTextPart} and
+ * {@link LLMChatHistoryImagePart}.
+ *
+ * @public
+ */
+export type LLMChatHistoryContentPart = LLMChatHistoryTextPart | LLMChatHistoryImagePart;
+export const llmChatHistoryContentPartSchema = z.union([
+  llmChatHistoryTextPartSchema,
+  llmChatHistoryImagePartSchema,
+]);
+
 /**
  * Represents a single message in the history.
  *
@@ -24,11 +118,25 @@ export const llmChatHistoryRoleSchema = z
  */
 export interface LLMChatHistoryMessage {
   role: LLMChatHistoryRole;
-  content: string;
+  /**
+   * The content of the message. Either a plain string, or an array of content parts, which allows
+   * mixing text and images in the same message. See {@link LLMChatHistoryContentPart}.
+   */
+  content: string | Array<LLMChatHistoryContentPart>;
+  /**
+   * Only used in `assistant` messages. The tool calls that the model requested in this message.
+   */
+  toolCallRequests?: Array<LLMToolCallRequest>;
+  /**
+   * Only used in `tool` messages. The identifier of the tool call this message is the result of.
+   */
+  toolCallId?: string;
 }
 export const llmChatHistoryMessageSchema = z.object({
   role: llmChatHistoryRoleSchema,
-  content: z.string(),
+  content: z.union([z.string(), z.array(llmChatHistoryContentPartSchema)]),
+  toolCallRequests: z.array(llmToolCallRequestSchema).optional(),
+  toolCallId: z.string().optional(),
 });
 
 /**
@@ -38,3 +146,17 @@ export const llmChatHistoryMessageSchema = z.object({
  */
 export type LLMChatHistory = Array<LLMChatHistoryMessage>;
 export const llmChatHistorySchema = z.array(llmChatHistoryMessageSchema);
+
+/**
+ * A chat history where all images are provided as base64. This is what is sent to LM Studio: the
+ * SDK reads the files and encodes the buffers before sending the history.
+ */
+export const llmResolvedChatHistorySchema = z.array(
+  llmChatHistoryMessageSchema.extend({
+    content: z.union([
+      z.string(),
+      z.array(z.union([llmChatHistoryTextPartSchema, llmChatHistoryBase64ImagePartSchema])),
+    ]),
+  }),
+);
+export type LLMResolvedChatHistory = z.infer<typeof llmResolvedChatHistorySchema>;
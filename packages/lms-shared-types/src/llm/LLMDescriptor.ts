@@ -1,4 +1,31 @@
 import { z } from "zod";
+import { llmLoadModelConfigSchema, type LLMLoadModelConfig } from "./LLMLoadModelConfig";
+
+/**
+ * What a model is able to do, beyond generating text.
+ *
+ * @public
+ */
+export interface LLMCapabilities {
+  /**
+   * Whether the model accepts images as input. See {@link LLMChatHistoryImagePart}.
+   */
+  vision: boolean;
+  /**
+   * Whether the model was trained to call tools. See {@link LLMDynamicHandle#act}.
+   */
+  toolUse: boolean;
+  /**
+   * Whether the model supports fill-in-the-middle, i.e. completing code between a prefix and a
+   * suffix.
+   */
+  fim: boolean;
+}
+export const llmCapabilitiesSchema = z.object({
+  vision: z.boolean(),
+  toolUse: z.boolean(),
+  fim: z.boolean(),
+});
 
 /**
  * Describes a specific loaded LLM.
@@ -18,8 +45,61 @@ export interface LLMDescriptor {
    * An path is associated with a specific model that can be loaded.
    */
   path: string;
+  /**
+   * The architecture of the model, for example `llama` or `qwen2`.
+   *
+   * Absent if the version of LM Studio does not report it.
+   */
+  architecture?: string;
+  /**
+   * The number of parameters of the model.
+   *
+   * Absent if the version of LM Studio does not report it, or if it is unknown for this model.
+   */
+  parametersCount?: number;
+  /**
+   * The quantization of the model file, for example `Q4_K_M` or `F16`.
+   *
+   * Absent if the version of LM Studio does not report it, or if it is unknown for this model.
+   */
+  quantization?: string;
+  /**
+   * The context length the model was trained with, in tokens. The context length the model is
+   * loaded with (see `loadConfig`) can differ.
+   *
+   * Absent if the version of LM Studio does not report it.
+   */
+  trainedContextLength?: number;
+  /**
+   * The config the model is loaded with. Every field is resolved, including the ones that came
+   * from the preset or the defaults.
+   *
+   * Absent if the version of LM Studio does not report it. In that case, use
+   * {@link LLMDynamicHandle#getLoadConfig}.
+   */
+  loadConfig?: LLMLoadModelConfig;
+  /**
+   * The size of the model file(s) on disk, in bytes.
+   *
+   * Absent if the version of LM Studio does not report it.
+   */
+  sizeBytes?: number;
+  /**
+   * What the model is able to do. See {@link LLMCapabilities}.
+   *
+   * Absent if the version of LM Studio does not report it. An absent value means the capabilities
+   * are unknown, not that the model has none.
+   */
+  capabilities?: LLMCapabilities;
 }
 export const llmDescriptorSchema = z.object({
   identifier: z.string(),
   path: z.string(),
+  architecture: z.string().optional(),
+  parametersCount: z.number().int().min(0).optional(),
+  quantization: z.string().optional(),
+  trainedContextLength: z.number().int().min(0).optional(),
+  loadConfig: llmLoadModelConfigSchema.optional(),
+  sizeBytes: z.number().int().min(0).optional(),
+  capabilities: llmCapabilitiesSchema.optional(),
 });
@@ -23,4 +23,17 @@ export const llmErrorDisplayDataSchema = [
     loadedModelsSample: z.array(z.string()),
     totalLoadedModels: z.number(),
   }),
+  z.object({
+    code: z.literal("llm.stateNotFound"),
+    name: z.string(),
+    availableStatesSample: z.array(z.string()),
+    totalStates: z.number(),
+  }),
+  z.object({
+    code: z.literal("llm.invalidGrammar"),
+    structuredType: z.enum(["grammar", "regex"]),
+    error: z.string(),
+    line: z.number().optional(),
+    column: z.number().optional(),
+  }),
 ] as const;
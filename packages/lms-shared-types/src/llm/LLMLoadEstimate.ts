@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { acceleratorSchema, type Accelerator } from "../Runtime";
+import { llmMemoryEstimateSchema, type LLMMemoryEstimate } from "./LLMLoadProgress";
+
+/**
+ * An estimate of the resources a model would use if it were loaded with a given config. Returned
+ * by {@link LLMNamespace#estimateLoad}.
+ *
+ * @public
+ */
+export interface LLMLoadEstimate {
+  /**
+   * How much memory the model is estimated to use once loaded, including the context.
+   */
+  estimatedMemory: LLMMemoryEstimate;
+  /**
+   * The number of layers that would be offloaded to the GPU with the requested `gpuOffload`.
+   */
+  offloadedLayersCount: number;
+  /**
+   * The total number of layers of the model.
+   */
+  totalLayersCount: number;
+  /**
+   * The accelerators (GPUs) detected by LM Studio, which the estimate is based on.
+   */
+  accelerators: Array<Accelerator>;
+  /**
+   * The amount of system memory (RAM) that is currently available, in bytes.
+   */
+  availableRamBytes: number;
+  /**
+   * Whether the estimated RAM usage fits in the available system memory.
+   */
+  fitsInRam: boolean;
+  /**
+   * Whether the estimated VRAM usage fits in the memory of the detected accelerators. Always `true`
+   * if no layers would be offloaded.
+   */
+  fitsInVram: boolean;
+  /**
+   * Whether the model is expected to load successfully, i.e. both `fitsInRam` and `fitsInVram`.
+   */
+  fits: boolean;
+}
+export const llmLoadEstimateSchema = z.object({
+  estimatedMemory: llmMemoryEstimateSchema,
+  offloadedLayersCount: z.number().int().min(0),
+  totalLayersCount: z.number().int().min(0),
+  accelerators: z.array(acceleratorSchema),
+  availableRamBytes: z.number().int().min(0),
+  fitsInRam: z.boolean(),
+  fitsInVram: z.boolean(),
+  fits: z.boolean(),
+});
@@ -1,5 +1,4 @@
 import { z } from "zod";
-import { type LLMContextOverflowPolicy, type LLMPredictionConfigBase } from "./LLMPredictionConfig";
 
 /**
  * How much of the model's work should be offloaded to the GPU. The value should be between 0 and 1.
@@ -19,6 +18,51 @@ export const llmAccelerationOffloadSchema = z.union([
   z.literal("off"),
 ]);
 
+/**
+ * The data type used to store the KV cache (the keys and values of the attention layers for the
+ * tokens in the context). Quantized types (the `q*` types) use less memory at the cost of some
+ * quality.
+ *
+ * @public
+ */
+export type LLMKVCacheQuantizationType = "f32" | "f16" | "q8_0" | "q5_1" | "q5_0" | "q4_1" | "q4_0";
+export const llmKVCacheQuantizationTypeSchema = z.enum([
+  "f32",
+  "f16",
+  "q8_0",
+  "q5_1",
+  "q5_0",
+  "q4_1",
+  "q4_0",
+]);
+
+/**
+ * Settings for speculative decoding. With speculative decoding, a small draft model proposes
+ * several tokens ahead, which the main model then verifies all at once. This produces exactly the
+ * same output as the main model alone, but can be much faster, at the cost of the memory needed
+ * for the draft model.
+ *
+ * The draft model must use the same vocabulary as the main model (usually a smaller model of the
+ * same family).
+ *
+ * @public
+ */
+export interface LLMSpeculativeDecodingConfig {
+  /**
+   * The path of the draft model, in the same format as the path passed to `client.llm.load`.
+   */
+  draftModel: string;
+  /**
+   * The maximum number of tokens the draft model proposes at a time. If not set, LM Studio picks
+   * a default.
+   */
+  draftTokensCount?: number;
+}
+export const llmSpeculativeDecodingConfigSchema = z.object({
+  draftModel: z.string().min(1),
+  draftTokensCount: z.number().int().min(1).optional(),
+});
+
 /** @public */
 export interface LLMLoadModelConfig {
   /**
@@ -41,9 +85,81 @@ export interface LLMLoadModelConfig {
    * @public
    */
   gpuOffload?: LLMAccelerationOffload;
+
+  /**
+   * If set, a draft model is loaded alongside the model to speed up predictions with speculative
+   * decoding. See {@link LLMSpeculativeDecodingConfig} for more information.
+   *
+   * How well it works is reported in the prediction stats (see
+   * {@link LLMPredictionStats#draftAcceptanceRate}).
+   */
+  speculativeDecoding?: LLMSpeculativeDecodingConfig;
+
+  /**
+   * The maximum number of prompt tokens that are processed at once. Larger values speed up prompt
+   * processing, but use more memory.
+   */
+  evalBatchSize?: number;
+
+  /**
+   * The number of CPU threads to use for the model.
+   */
+  numThreads?: number;
+
+  /**
+   * Whether to use flash attention, which speeds up predictions and reduces memory usage on
+   * supported hardware. Required to use a quantized `kvCacheQuantizationType`.
+   */
+  flashAttention?: boolean;
+
+  /**
+   * The data type of the KV cache. See {@link LLMKVCacheQuantizationType}.
+   */
+  kvCacheQuantizationType?: LLMKVCacheQuantizationType;
+
+  /**
+   * The base frequency of the rotary position embeddings (RoPE). By default, the value from the
+   * model is used.
+   */
+  ropeFrequencyBase?: number;
+
+  /**
+   * The scale factor of the rotary position embeddings (RoPE). Values below 1 stretch the
+   * positions, which can extend the usable context length beyond the one the model was trained
+   * with. By default, the value from the model is used.
+   */
+  ropeFrequencyScale?: number;
+
+  /**
+   * Whether to memory-map the model file instead of reading it into memory. Memory mapping makes
+   * loading faster and lets the operating system share the memory between processes.
+   */
+  useMmap?: boolean;
+
+  /**
+   * Whether to lock the model in memory, preventing the operating system from swapping it out.
+   */
+  useMlock?: boolean;
+
+  /**
+   * The seed of the random number generator that is set when the model is loaded. Use it to make
+   * predictions reproducible across loads. To set the seed of a single prediction, use
+   * {@link LLMPredictionConfigBase#seed} instead.
+   */
+  seed?: number;
 }
 
 export const llmLoadModelConfigSchema = z.object({
   contextLength: z.number().int().min(0).optional(),
   gpuOffload: llmAccelerationOffloadSchema.optional(),
+  speculativeDecoding: llmSpeculativeDecodingConfigSchema.optional(),
+  evalBatchSize: z.number().int().min(1).optional(),
+  numThreads: z.number().int().min(1).optional(),
+  flashAttention: z.boolean().optional(),
+  kvCacheQuantizationType: llmKVCacheQuantizationTypeSchema.optional(),
+  ropeFrequencyBase: z.number().positive().optional(),
+  ropeFrequencyScale: z.number().positive().optional(),
+  useMmap: z.boolean().optional(),
+  useMlock: z.boolean().optional(),
+  seed: z.number().int().optional(),
 });
@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+/**
+ * The stage a model load is in:
+ *
+ * - `reading`: The model file is being read from disk.
+ * - `allocating`: Memory is being allocated for the model and its context.
+ * - `offloadingLayers`: Layers of the model are being offloaded to the GPU.
+ *
+ * @public
+ */
+export type LLMLoadStage = "reading" | "allocating" | "offloadingLayers";
+export const llmLoadStageSchema = z.enum(["reading", "allocating", "offloadingLayers"]);
+
+/**
+ * An estimate of how much memory a model uses once loaded.
+ *
+ * @public
+ */
+export interface LLMMemoryEstimate {
+  /**
+   * The estimated amount of system memory (RAM) used, in bytes.
+   */
+  ramBytes: number;
+  /**
+   * The estimated amount of GPU memory (VRAM) used, in bytes.
+   */
+  vramBytes: number;
+}
+export const llmMemoryEstimateSchema = z.object({
+  ramBytes: z.number().int().min(0),
+  vramBytes: z.number().int().min(0),
+});
+
+/**
+ * Describes the progress of loading a model. Yielded by {@link OngoingLoad}.
+ *
+ * @public
+ */
+export interface LLMLoadProgressEvent {
+  /**
+   * What LM Studio is currently doing. See {@link LLMLoadStage}.
+   *
+   * Absent if the version of LM Studio does not report it.
+   */
+  stage?: LLMLoadStage;
+  /**
+   * The overall progress of the load, between 0 and 1.
+   */
+  progress: number;
+  /**
+   * The number of bytes of the model file that have been loaded so far.
+   *
+   * Absent if the version of LM Studio does not report it.
+   */
+  loadedBytes?: number;
+  /**
+   * The total number of bytes of the model file.
+   *
+   * Absent if the version of LM Studio does not report it.
+   */
+  totalBytes?: number;
+  /**
+   * How much memory the model is estimated to use once loaded. Only available once LM Studio has
+   * read enough of the model to estimate it.
+   */
+  estimatedMemory?: LLMMemoryEstimate;
+}
+export const llmLoadProgressEventSchema = z.object({
+  stage: llmLoadStageSchema.optional(),
+  progress: z.number().min(0).max(1),
+  loadedBytes: z.number().int().min(0).optional(),
+  totalBytes: z.number().int().min(0).optional(),
+  estimatedMemory: llmMemoryEstimateSchema.optional(),
+});
@@ -0,0 +1,41 @@
+import {
+  llmChatPredictionConfigSchema,
+  llmCompletionPredictionConfigSchema,
+} from "./LLMPredictionConfig";
+
+describe("llmChatPredictionConfigSchema", () => {
+  it("should allow the sampling parameters within their ranges", () => {
+    const config = {
+      topP: 0.9,
+      topK: 40,
+      minP: 0.05,
+      repeatPenalty: 1.1,
+      presencePenalty: -2,
+      frequencyPenalty: 2,
+      seed: 42,
+      logitBias: [[128009, -100]],
+    };
+    expect(llmChatPredictionConfigSchema.parse(config)).toEqual(config);
+    expect(llmCompletionPredictionConfigSchema.parse(config)).toEqual(config);
+  });
+
+  it("should allow a config without any sampling parameters", () => {
+    expect(llmChatPredictionConfigSchema.safeParse({ temperature: 0.7 }).success).toBe(true);
+  });
+
+  it.each([
+    ["topP", 1.5],
+    ["topP", -0.1],
+    ["topK", -1],
+    ["topK", 1.5],
+    ["minP", 2],
+    ["repeatPenalty", -1],
+    ["presencePenalty", 2.5],
+    ["frequencyPenalty", -3],
+    ["seed", 0.5],
+    ["logitBias", [[1.5, 0]]],
+    ["logitBias", [[1, Infinity]]],
+  ])("should not allow %s set to %j", (key, value) => {
+    expect(llmChatPredictionConfigSchema.safeParse({ [key]: value }).success).toBe(false);
+  });
+});
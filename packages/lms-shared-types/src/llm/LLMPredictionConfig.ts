@@ -61,12 +61,65 @@ export interface LLMPredictionConfigBase {
    * - `rollingWindow`: Maintain a rolling window and truncate past messages.
    */
   contextOverflowPolicy?: LLMContextOverflowPolicy;
+  /**
+   * Nucleus sampling. Only the most likely tokens whose probabilities add up to `topP` are
+   * considered when sampling. The value should be between 0 and 1. Set to 1 to disable.
+   */
+  topP?: number;
+  /**
+   * Only the `topK` most likely tokens are considered when sampling. Set to 0 to disable.
+   */
+  topK?: number;
+  /**
+   * Tokens whose probability is less than `minP` times the probability of the most likely token are
+   * not considered when sampling. The value should be between 0 and 1. Set to 0 to disable.
+   */
+  minP?: number;
+  /**
+   * Penalizes tokens that already appear in the context. A value greater than 1 makes repetition
+   * less likely, while 1 disables the penalty.
+   */
+  repeatPenalty?: number;
+  /**
+   * Penalizes tokens that already appear in the generated text, regardless of how often they
+   * appear. A positive value makes the model more likely to talk about new topics. The value should
+   * be between -2 and 2.
+   */
+  presencePenalty?: number;
+  /**
+   * Penalizes tokens proportionally to how often they already appear in the generated text. A
+   * positive value makes the model less likely to repeat the same line verbatim. The value should
+   * be between -2 and 2.
+   */
+  frequencyPenalty?: number;
+  /**
+   * The seed for the random number generator used for sampling. Using the same seed (along with
+   * the same model, input and config) makes the prediction reproducible.
+   */
+  seed?: number;
+  /**
+   * Adjusts the likelihood of specific tokens. Each entry is a pair of a token id and a bias, which
+   * is added to the logit of the token before sampling. A large negative bias (such as -100)
+   * effectively prevents the token from being predicted, while a large positive bias makes the
+   * token very likely.
+   *
+   * Token ids can be obtained with {@link LLMDynamicHandle#tokenize}.
+   */
+  logitBias?: Array<[tokenId: number, bias: number]>;
 }
 const llmPredictionConfigBaseSchema = z.object({
   maxPredictedTokens: z.number().int().min(-1).optional(),
   temperature: z.number().min(0).max(1).optional(),
   stopStrings: z.array(z.string()).optional(),
   contextOverflowPolicy: llmContextOverflowPolicySchema.optional(),
+  topP: z.number().min(0).max(1).optional(),
+  topK: z.number().int().min(0).optional(),
+  minP: z.number().min(0).max(1).optional(),
+  repeatPenalty: z.number().min(0).optional(),
+  presencePenalty: z.number().min(-2).max(2).optional(),
+  frequencyPenalty: z.number().min(-2).max(2).optional(),
+  seed: z.number().int().optional(),
+  logitBias: z.array(z.tuple([z.number().int(), z.number().finite()])).optional(),
 });
 
 /**
@@ -0,0 +1,43 @@
+import { llmPredictionStatsSchema } from "./LLMPredictionStats";
+
+describe("llmPredictionStatsSchema", () => {
+  it("should parse stats from servers that do not report draft or reuse stats", () => {
+    const stats = {
+      stopReason: "eosFound",
+      tokensPerSecond: 42.5,
+      numGpuLayers: 32,
+      timeToFirstTokenSec: 0.2,
+      promptTokensCount: 10,
+      predictedTokensCount: 20,
+      totalTokensCount: 30,
+    };
+    expect(llmPredictionStatsSchema.parse(stats)).toEqual(stats);
+  });
+
+  it("should parse draft and reuse stats", () => {
+    const stats = {
+      stopReason: "eosFound",
+      draftTokensCount: 40,
+      acceptedDraftTokensCount: 30,
+      draftAcceptanceRate: 0.75,
+      reusedPromptTokensCount: 100,
+      promptProcessingTimeSavedSec: 1.5,
+    };
+    expect(llmPredictionStatsSchema.parse(stats)).toEqual(stats);
+  });
+
+  it.each([1.5, -0.1])("should not allow a draft acceptance rate of %j", draftAcceptanceRate => {
+    expect(
+      llmPredictionStatsSchema.safeParse({ stopReason: "eosFound", draftAcceptanceRate }).success,
+    ).toBe(false);
+  });
+
+  it.each([
+    ["draftTokensCount", -1],
+    ["acceptedDraftTokensCount", 2.5],
+  ])("should not allow %s set to %j", (key, value) => {
+    expect(
+      llmPredictionStatsSchema.safeParse({ stopReason: "eosFound", [key]: value }).success,
+    ).toBe(false);
+  });
+});
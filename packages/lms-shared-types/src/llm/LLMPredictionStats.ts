@@ -17,6 +17,10 @@ import { z } from "zod";
  *   if the `maxPredictedTokens` config option is set to a value other than -1.)
  * - `contextLengthReached`: The context length was reached. This stop reason will only occur if the
  *   `contextOverflowPolicy` is set to `stopAtLimit`.
+ * - `toolCalls`: The model requested one or more tool calls. This stop reason will only occur if
+ *   tools are provided to the prediction.
+ * - `timeLimitReached`: The time limit of the prediction was reached. This stop reason will only
+ *   occur if the `timeoutMs` or `deadline` option is set.
  *
  * @public
  */
@@ -27,7 +31,9 @@ export type LLMPredictionStopReason =
   | "eosFound"
   | "stopStringFound"
   | "maxPredictedTokensReached"
-  | "contextLengthReached";
+  | "contextLengthReached"
+  | "toolCalls"
+  | "timeLimitReached";
 export const llmPredictionStopReasonSchema = z.enum([
   "userStopped",
   "modelUnloaded",
@@ -36,6 +42,8 @@ export const llmPredictionStopReasonSchema = z.enum([
   "stopStringFound",
   "maxPredictedTokensReached",
   "contextLengthReached",
+  "toolCalls",
+  "timeLimitReached",
 ]);
 
 export const llmPredictionStatsSchema = z.object({
@@ -46,6 +54,11 @@ export const llmPredictionStatsSchema = z.object({
   promptTokensCount: z.number().optional(),
   predictedTokensCount: z.number().optional(),
   totalTokensCount: z.number().optional(),
+  draftTokensCount: z.number().int().min(0).optional(),
+  acceptedDraftTokensCount: z.number().int().min(0).optional(),
+  draftAcceptanceRate: z.number().min(0).max(1).optional(),
+  reusedPromptTokensCount: z.number().optional(),
+  promptProcessingTimeSavedSec: z.number().optional(),
 });
 /** @public */
 export interface LLMPredictionStats {
@@ -68,6 +81,10 @@ export interface LLMPredictionStats {
    *   only occur if the `maxPredictedTokens` config option is set to a value other than -1.)
    * - `contextLengthReached`: The context length was reached. This stop reason will only occur if
    *   the `contextOverflowPolicy` is set to `stopAtLimit`.
+   * - `toolCalls`: The model requested one or more tool calls. This stop reason will only occur if
+   *   tools are provided to the prediction.
+   * - `timeLimitReached`: The time limit of the prediction was reached. This stop reason will only
+   *   occur if the `timeoutMs` or `deadline` option is set.
    */
   stopReason: LLMPredictionStopReason;
   /**
@@ -97,4 +114,31 @@ export interface LLMPredictionStats {
    * The total number of tokens. This is the sum of the prompt tokens and the predicted tokens.
    */
   totalTokensCount?: number;
+  /**
+   * Only available when speculative decoding is used (see
+   * {@link LLMLoadModelConfig#speculativeDecoding}). The number of tokens that were proposed by the
+   * draft model.
+   */
+  draftTokensCount?: number;
+  /**
+   * Only available when speculative decoding is used. The number of tokens proposed by the draft
+   * model that were accepted by the main model.
+   */
+  acceptedDraftTokensCount?: number;
+  /**
+   * Only available when speculative decoding is used. The fraction of the tokens proposed by the
+   * draft model that were accepted, between 0 and 1. The higher the rate, the more speculative
+   * decoding speeds up the prediction.
+   */
+  draftAcceptanceRate?: number;
+  /**
+   * The number of prompt tokens that did not need to be processed, because they were already in
+   * the state of the model (for example, after {@link LLMDynamicHandle#restoreState}).
+   */
+  reusedPromptTokensCount?: number;
+  /**
+   * An estimate of the prompt processing time saved by reusing the state of the model, in seconds.
+   * Only available if some prompt tokens were reused.
+   */
+  promptProcessingTimeSavedSec?: number;
 }
@@ -0,0 +1,95 @@
+import { z } from "zod";
+
+/**
+ * A prompt template that is written as a Jinja template, usually the one that comes with the model.
+ *
+ * @public
+ */
+export interface LLMJinjaPromptTemplate {
+  type: "jinja";
+  /**
+   * The Jinja source of the template.
+   */
+  template: string;
+  /**
+   * The token that is inserted at the beginning of the prompt.
+   */
+  bosToken: string;
+  /**
+   * The token that marks the end of a message.
+   */
+  eosToken: string;
+}
+export const llmJinjaPromptTemplateSchema = z.object({
+  type: z.literal("jinja"),
+  template: z.string(),
+  bosToken: z.string(),
+  eosToken: z.string(),
+});
+
+/**
+ * A prompt template defined in LM Studio by the strings that are inserted before and after the
+ * messages of each role.
+ *
+ * @public
+ */
+export interface LLMManualPromptTemplate {
+  type: "manual";
+  beforeSystem: string;
+  afterSystem: string;
+  beforeUser: string;
+  afterUser: string;
+  beforeAssistant: string;
+  afterAssistant: string;
+  /**
+   * The token that is inserted at the beginning of the prompt.
+   */
+  bosToken: string;
+  /**
+   * The token that marks the end of a message.
+   */
+  eosToken: string;
+}
+export const llmManualPromptTemplateSchema = z.object({
+  type: z.literal("manual"),
+  beforeSystem: z.string(),
+  afterSystem: z.string(),
+  beforeUser: z.string(),
+  afterUser: z.string(),
+  beforeAssistant: z.string(),
+  afterAssistant: z.string(),
+  bosToken: z.string(),
+  eosToken: z.string(),
+});
+
+/**
+ * The prompt template of a model, which turns a chat history into the text that is fed to the
+ * model. See {@link LLMDynamicHandle#getPromptTemplate}.
+ *
+ * @public
+ */
+export type LLMPromptTemplate = LLMJinjaPromptTemplate | LLMManualPromptTemplate;
+export const llmPromptTemplateSchema = z.discriminatedUnion("type", [
+  llmJinjaPromptTemplateSchema,
+  llmManualPromptTemplateSchema,
+]);
+
+/**
+ * Options for {@link LLMDynamicHandle#applyPromptTemplate}.
+ *
+ * @public
+ */
+export interface LLMApplyPromptTemplateOpts {
+  /**
+   * Whether to leave out the BOS token at the beginning of the result. Defaults to `false`.
+   */
+  omitBosToken?: boolean;
+  /**
+   * Whether to leave out the EOS token at the end of the result. Defaults to `false`.
+   */
+  omitEosToken?: boolean;
+}
+export const llmApplyPromptTemplateOptsSchema = z.object({
+  omitBosToken: z.boolean().optional(),
+  omitEosToken: z.boolean().optional(),
+});
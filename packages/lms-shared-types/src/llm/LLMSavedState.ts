@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+/**
+ * Information about a saved state of a model (the processed prompt, also known as the KV cache).
+ * See {@link LLMDynamicHandle#saveState}.
+ *
+ * @public
+ */
+export interface LLMSavedStateInfo {
+  /**
+   * The name the state was saved under.
+   */
+  name: string;
+  /**
+   * The number of tokens of the input that was processed to produce the state.
+   */
+  tokensCount: number;
+  /**
+   * How long it took to process the input, in seconds. This is roughly the time saved by every
+   * prediction that reuses the state.
+   */
+  processingTimeSec: number;
+}
+export const llmSavedStateInfoSchema = z.object({
+  name: z.string(),
+  tokensCount: z.number().int(),
+  processingTimeSec: z.number(),
+});
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { jsonSerializableSchema } from "../JSONSerializable";
+import { findGbnfError } from "./gbnf";
 
 /**
  * Settings for structured prediction. Structured prediction is a way to force the model to generate
@@ -37,6 +38,33 @@ import { jsonSerializableSchema } from "../JSONSerializable";
  * });
  * ```
  *
+ * Only generate text that matches a GBNF grammar (the grammar format of llama.cpp, see
+ * https://github.com/ggerganov/llama.cpp/blob/master/grammars/README.md). The grammar must define
+ * a `root` rule:
+ *
+ * ```ts
+ * const prediction = model.complete("...", {
+ *   maxPredictedTokens: 100,
+ *   structured: {
+ *     type: "grammar",
+ *     gbnf: 'root ::= "SELECT " column " FROM users"\ncolumn ::= "id" | "name" | "email"',
+ *   },
+ * });
+ * ```
+ *
+ * Only generate text that matches a regular expression:
+ *
+ * ```ts
+ * const prediction = model.complete("...", {
+ *   maxPredictedTokens: 20,
+ *   structured: { type: "regex", pattern: "\\d{4}-\\d{2}-\\d{2}" },
+ * });
+ * ```
+ *
+ * Grammars are checked for syntax errors and undefined rules before they are sent, and regular
+ * expressions are checked to be valid JavaScript regular expressions. The pattern must match the
+ * whole output, so anchors (`^` and `$`) are not needed.
+ *
  * By default, `{ type: "none" }` is used, which means no structured prediction is used.
  *
  * Caveats:
@@ -60,6 +88,14 @@ export type LLMStructuredPredictionSetting =
   | {
       type: "json";
       jsonSchema?: any;
+    }
+  | {
+      type: "grammar";
+      gbnf: string;
+    }
+  | {
+      type: "regex";
+      pattern: string;
     };
 
 export const llmStructuredPredictionSettingSchema = z.discriminatedUnion("type", [
@@ -70,4 +106,33 @@ export const llmStructuredPredictionSettingSchema = z.discriminatedUnion("type",
     type: z.literal("json"),
     jsonSchema: jsonSerializableSchema.optional(),
   }),
+  z.object({
+    type: z.literal("grammar"),
+    gbnf: z.string().superRefine((gbnf, ctx) => {
+      const error = findGbnfError(gbnf);
+      if (error !== null) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Invalid grammar (line ${error.line}, column ${error.column}): ${error.message}`,
+        });
+      }
+    }),
+  }),
+  z.object({
+    type: z.literal("regex"),
+    pattern: z
+      .string()
+      .min(1)
+      .superRefine((pattern, ctx) => {
+        try {
+          new RegExp(pattern);
+        } catch (error: any) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            // The message of the SyntaxError already says "Invalid regular expression".
+            message: String(error?.message ?? error),
+          });
+        }
+      }),
+  }),
 ]);
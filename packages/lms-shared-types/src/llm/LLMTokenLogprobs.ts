@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+/**
+ * Settings for requesting log probabilities of the predicted tokens.
+ *
+ * @public
+ */
+export interface LLMLogprobsSetting {
+  /**
+   * The number of most likely alternatives to report for each predicted token. Set to 0 to only
+   * get the log probability of the tokens that were actually predicted.
+   */
+  topK: number;
+}
+export const llmLogprobsSettingSchema = z.object({
+  topK: z.number().int().min(0),
+});
+
+/**
+ * A token that the model could have predicted at a given position, along with its log probability.
+ *
+ * @public
+ */
+export interface LLMTokenCandidate {
+  /**
+   * The id of the token in the vocabulary of the model.
+   */
+  tokenId: number;
+  /**
+   * The text of the token.
+   */
+  text: string;
+  /**
+   * The natural logarithm of the probability of the token. Always less than or equal to 0.
+   */
+  logprob: number;
+}
+export const llmTokenCandidateSchema = z.object({
+  tokenId: z.number().int(),
+  text: z.string(),
+  logprob: z.number(),
+});
+
+/**
+ * A token that the model predicted, along with its log probability and the most likely
+ * alternatives at its position.
+ *
+ * @public
+ */
+export interface LLMTokenLogprob extends LLMTokenCandidate {
+  /**
+   * The `topK` most likely tokens at this position, ordered from the most to the least likely. May
+   * or may not include the predicted token itself.
+   */
+  topCandidates: Array<LLMTokenCandidate>;
+}
+export const llmTokenLogprobSchema = llmTokenCandidateSchema.extend({
+  topCandidates: z.array(llmTokenCandidateSchema),
+});
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { jsonSerializableSchema } from "../JSONSerializable";
+
+/**
+ * Describes a tool that the model is allowed to call during a prediction. The parameters are
+ * described using JSON schema (See https://json-schema.org/ for more information).
+ *
+ * @public
+ */
+export interface LLMToolDefinition {
+  /**
+   * The name of the tool. The model refers to the tool with this name when requesting a call.
+   */
+  name: string;
+  /**
+   * A description of what the tool does. This is shown to the model to help it decide when to use
+   * the tool.
+   */
+  description: string;
+  /**
+   * The JSON schema of the parameters of the tool.
+   */
+  parameters: any;
+}
+export const llmToolDefinitionSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  parameters: jsonSerializableSchema,
+});
+
+/**
+ * Represents a request from the model to call a tool.
+ *
+ * @public
+ */
+export interface LLMToolCallRequest {
+  /**
+   * The identifier of this tool call. The result of the call should be fed back to the model with
+   * a message that has the same `toolCallId`.
+   */
+  id: string;
+  /**
+   * The name of the tool to call.
+   */
+  name: string;
+  /**
+   * The arguments the model has generated for the tool call. Note that the arguments are not
+   * guaranteed to conform to the parameter schema of the tool.
+   */
+  arguments?: any;
+}
+export const llmToolCallRequestSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: jsonSerializableSchema.optional(),
+});
@@ -0,0 +1,45 @@
+import { diffLLMLoadModelConfig } from "./diffLLMLoadModelConfig";
+
+describe("diffLLMLoadModelConfig", () => {
+  it("should ignore fields that are not requested", () => {
+    expect(diffLLMLoadModelConfig({}, { contextLength: 4096, gpuOffload: 0.5 })).toEqual([]);
+    expect(diffLLMLoadModelConfig({ contextLength: undefined }, { contextLength: 4096 })).toEqual(
+      [],
+    );
+  });
+
+  it("should report differing fields", () => {
+    expect(
+      diffLLMLoadModelConfig(
+        { contextLength: 8192, gpuOffload: "max" },
+        { contextLength: 4096, gpuOffload: "max" },
+      ),
+    ).toEqual([{ field: "contextLength", requested: 8192, loaded: 4096 }]);
+    expect(diffLLMLoadModelConfig({ gpuOffload: "off" }, {})).toEqual([
+      { field: "gpuOffload", requested: "off", loaded: undefined },
+    ]);
+  });
+
+  it("should compare nested objects field by field", () => {
+    const loaded = { speculativeDecoding: { draftModel: "draft", draftTokensCount: 8 } };
+    expect(
+      diffLLMLoadModelConfig({ speculativeDecoding: { draftModel: "draft" } }, loaded),
+    ).toEqual([]);
+    expect(
+      diffLLMLoadModelConfig({ speculativeDecoding: { draftModel: "other" } }, loaded),
+    ).toHaveLength(1);
+    expect(diffLLMLoadModelConfig({ speculativeDecoding: { draftModel: "draft" } }, {})).toEqual([
+      { field: "speculativeDecoding", requested: { draftModel: "draft" }, loaded: undefined },
+    ]);
+  });
+
+  it("should match a symbolic gpuOffload with the ratio it resolves to", () => {
+    expect(diffLLMLoadModelConfig({ gpuOffload: "max" }, { gpuOffload: 1 })).toEqual([]);
+    expect(diffLLMLoadModelConfig({ gpuOffload: "off" }, { gpuOffload: 0 })).toEqual([]);
+    expect(diffLLMLoadModelConfig({ gpuOffload: "auto" }, { gpuOffload: 0.4 })).toEqual([]);
+    expect(diffLLMLoadModelConfig({ gpuOffload: 1 }, { gpuOffload: "max" })).toEqual([]);
+    expect(diffLLMLoadModelConfig({ gpuOffload: "max" }, { gpuOffload: 0.5 })).toEqual([
+      { field: "gpuOffload", requested: "max", loaded: 0.5 },
+    ]);
+  });
+});
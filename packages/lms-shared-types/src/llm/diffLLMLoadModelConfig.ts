@@ -0,0 +1,78 @@
+import { type LLMLoadModelConfig } from "./LLMLoadModelConfig";
+
+/**
+ * A field of {@link LLMLoadModelConfig} whose requested value does not match the value a model was
+ * loaded with.
+ *
+ * @public
+ */
+export interface LLMLoadModelConfigDifference {
+  /**
+   * The name of the field, for example `contextLength`.
+   */
+  field: keyof LLMLoadModelConfig;
+  requested: unknown;
+  loaded: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether `loaded` satisfies `requested`. Objects are compared field by field, and fields
+ * that are not set in `requested` are ignored.
+ */
+function satisfies(requested: unknown, loaded: unknown): boolean {
+  if (isPlainObject(requested)) {
+    return (
+      isPlainObject(loaded) &&
+      Object.entries(requested).every(
+        ([key, value]) => value === undefined || satisfies(value, loaded[key]),
+      )
+    );
+  }
+  if (Array.isArray(requested)) {
+    return (
+      Array.isArray(loaded) &&
+      requested.length === loaded.length &&
+      requested.every((value, index) => satisfies(value, loaded[index]))
+    );
+  }
+  return Object.is(requested, loaded);
+}
+
+/**
+ * `gpuOffload` can be requested symbolically, while the loaded config may report the ratio it was
+ * resolved to. `"auto"` depends on the hardware, so any ratio satisfies it.
+ */
+function gpuOffloadSatisfies(requested: unknown, loaded: unknown): boolean {
+  if (requested === "auto") {
+    return loaded !== undefined;
+  }
+  const toRatio = (offload: unknown) => (offload === "max" ? 1 : offload === "off" ? 0 : offload);
+  return Object.is(toRatio(requested), toRatio(loaded));
+}
+
+/**
+ * Compares a requested load config with the config a model was loaded with. Only the fields that
+ * are set in `requested` are compared: a field that is not set means "whatever the model was
+ * loaded with". A symbolic `gpuOffload` matches the ratio it resolves to.
+ *
+ * @param requested - The requested config.
+ * @param loaded - The config the model was loaded with.
+ * @returns The fields that differ. Empty if the loaded model is compatible with the request.
+ */
+export function diffLLMLoadModelConfig(
+  requested: LLMLoadModelConfig,
+  loaded: LLMLoadModelConfig,
+): Array<LLMLoadModelConfigDifference> {
+  const differences: Array<LLMLoadModelConfigDifference> = [];
+  for (const field of Object.keys(requested) as Array<keyof LLMLoadModelConfig>) {
+    const fieldSatisfies = field === "gpuOffload" ? gpuOffloadSatisfies : satisfies;
+    if (requested[field] !== undefined && !fieldSatisfies(requested[field], loaded[field])) {
+      differences.push({ field, requested: requested[field], loaded: loaded[field] });
+    }
+  }
+  return differences;
+}
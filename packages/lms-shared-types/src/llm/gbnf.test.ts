@@ -0,0 +1,63 @@
+import { findGbnfError } from "./gbnf";
+
+describe("findGbnfError", () => {
+  it("should accept valid grammars", () => {
+    const grammars = [
+      'root ::= "yes" | "no"',
+      'root ::= answer\nanswer ::= ("yes" | "no") "."',
+      "# A comment\nroot ::= [a-z]+ ws? [0-9]{2,4} # Trailing comment\nws ::= [ \\t\\n]*",
+      'root ::= (\n  "a" |\n  "b"\n)*',
+      'root ::= "\\x41\\u0042\\"" [^\\]]{3} .',
+      'root ::=\n  "a" |\n  "b"',
+    ];
+    for (const grammar of grammars) {
+      expect(findGbnfError(grammar)).toBeNull();
+    }
+  });
+
+  it("should report unterminated literals and character classes", () => {
+    expect(findGbnfError('root ::= "abc')).toEqual({
+      message: 'Unterminated literal (missing """)',
+      line: 1,
+      column: 10,
+    });
+    expect(findGbnfError("root ::= [a-z")?.message).toMatch(/Unterminated character class/);
+  });
+
+  it("should report unbalanced parentheses", () => {
+    expect(findGbnfError('root ::= ("a" | "b"')?.message).toMatch(/Unbalanced parenthesis/);
+    expect(findGbnfError('root ::= "a")')?.message).toBe('Unexpected character ")"');
+  });
+
+  it("should report a missing ::=", () => {
+    expect(findGbnfError('root ::= "a"\nnext = "b"')).toEqual({
+      message: 'Expected "::=" after rule name "next"',
+      line: 2,
+      column: 6,
+    });
+  });
+
+  it("should report invalid escapes and repetitions", () => {
+    expect(findGbnfError('root ::= "\\q"')?.message).toBe('Unknown escape sequence "\\q"');
+    expect(findGbnfError('root ::= "\\x4"')?.message).toMatch(/Expected 2 hex digits/);
+    expect(findGbnfError('root ::= "a"{3,1}')?.message).toMatch(/maximum is less/);
+    expect(findGbnfError('root ::= "a"{x}')?.message).toMatch(/Invalid repetition/);
+  });
+
+  it("should report operators without a preceding symbol", () => {
+    expect(findGbnfError("root ::= *")?.message).toBe('Unexpected character "*"');
+  });
+
+  it("should report undefined rules", () => {
+    expect(findGbnfError('root ::= greeting\ngreting ::= "hi"')).toEqual({
+      message: 'Undefined rule "greeting"',
+      line: 1,
+      column: 10,
+    });
+  });
+
+  it("should report a missing root rule", () => {
+    expect(findGbnfError('start ::= "a"')?.message).toBe('The grammar must define a "root" rule');
+    expect(findGbnfError("")?.message).toBe('The grammar must define a "root" rule');
+  });
+});
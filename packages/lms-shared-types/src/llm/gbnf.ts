@@ -0,0 +1,199 @@
+/**
+ * An error found in a GBNF grammar. `line` and `column` are 1-based.
+ */
+export interface GbnfError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+class GbnfSyntaxError extends Error {
+  public constructor(
+    message: string,
+    public readonly index: number,
+  ) {
+    super(message);
+  }
+}
+
+function isNameChar(char: string | undefined) {
+  return char !== undefined && /[a-zA-Z0-9-]/.test(char);
+}
+
+function toLineAndColumn(input: string, index: number) {
+  const lines = input.slice(0, index).split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Checks a GBNF grammar (the grammar format used by llama.cpp) for mistakes, without needing a
+ * model. The following are reported:
+ *
+ * - Syntax errors, such as unterminated literals or character classes, unbalanced parentheses, or
+ *   a missing `::=`.
+ * - References to rules that are not defined.
+ * - A missing `root` rule.
+ *
+ * This is a best-effort check to give early, readable feedback. A grammar that passes this check
+ * may still be rejected by LM Studio.
+ *
+ * @param gbnf - The grammar to check.
+ * @returns The first error found, or `null` if no errors were found.
+ */
+export function findGbnfError(gbnf: string): GbnfError | null {
+  let index = 0;
+  const definedRules = new Set<string>();
+  const references: Array<{ name: string; index: number }> = [];
+
+  function isAtEnd() {
+    return index >= gbnf.length;
+  }
+  function skipSpace(newlineOk: boolean) {
+    while (!isAtEnd()) {
+      const char = gbnf[index];
+      if (char === " " || char === "\t") {
+        index++;
+      } else if (char === "#") {
+        while (!isAtEnd() && gbnf[index] !== "\n" && gbnf[index] !== "\r") {
+          index++;
+        }
+      } else if (newlineOk && (char === "\n" || char === "\r")) {
+        index++;
+      } else {
+        break;
+      }
+    }
+  }
+  function parseName() {
+    const start = index;
+    while (isNameChar(gbnf[index])) {
+      index++;
+    }
+    if (start === index) {
+      throw new GbnfSyntaxError("Expected a rule name", index);
+    }
+    return gbnf.slice(start, index);
+  }
+  function parseEscape() {
+    const start = index;
+    index++; // Backslash
+    const char = gbnf[index];
+    const hexLength = { x: 2, u: 4, U: 8 }[char as "x" | "u" | "U"];
+    if (hexLength !== undefined) {
+      const hex = gbnf.slice(index + 1, index + 1 + hexLength);
+      if (!new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(hex)) {
+        throw new GbnfSyntaxError(`Expected ${hexLength} hex digits after "\\${char}"`, start);
+      }
+      index += 1 + hexLength;
+    } else if (char !== undefined && '"[]\\-nrt^'.includes(char)) {
+      index++;
+    } else {
+      throw new GbnfSyntaxError(`Unknown escape sequence "\\${char ?? ""}"`, start);
+    }
+  }
+  function parseDelimited(open: string, close: string, description: string) {
+    const start = index;
+    index++; // Opening delimiter
+    while (!isAtEnd() && gbnf[index] !== close) {
+      if (gbnf[index] === "\n" || gbnf[index] === "\r") {
+        break;
+      }
+      if (gbnf[index] === "\\") {
+        parseEscape();
+      } else {
+        index++;
+      }
+    }
+    if (gbnf[index] !== close) {
+      throw new GbnfSyntaxError(`Unterminated ${description} (missing "${close}")`, start);
+    }
+    index++;
+  }
+  function parseRepetition() {
+    const start = index;
+    const match = /\{ *(\d+) *(?:(,) *(\d*) *)?\}/y;
+    match.lastIndex = index;
+    const result = match.exec(gbnf);
+    if (result === null) {
+      throw new GbnfSyntaxError('Invalid repetition, expected "{n}", "{n,}" or "{n,m}"', start);
+    }
+    if (result[3] !== undefined && result[3] !== "" && Number(result[3]) < Number(result[1])) {
+      throw new GbnfSyntaxError("Invalid repetition, the maximum is less than the minimum", start);
+    }
+    index = match.lastIndex;
+  }
+  function parseSequence(nested: boolean) {
+    let hasSymbol = false;
+    while (!isAtEnd()) {
+      const char = gbnf[index];
+      if (char === '"') {
+        parseDelimited('"', '"', "literal");
+      } else if (char === "[") {
+        parseDelimited("[", "]", "character class");
+      } else if (isNameChar(char)) {
+        const referenceIndex = index;
+        references.push({ name: parseName(), index: referenceIndex });
+      } else if (char === "(") {
+        const start = index;
+        index++;
+        skipSpace(true);
+        parseAlternates(true);
+        if (gbnf[index] !== ")") {
+          throw new GbnfSyntaxError('Unbalanced parenthesis (missing ")")', start);
+        }
+        index++;
+      } else if (char === ".") {
+        index++;
+      } else if (hasSymbol && (char === "*" || char === "+" || char === "?")) {
+        index++;
+      } else if (hasSymbol && char === "{") {
+        parseRepetition();
+      } else {
+        break;
+      }
+      hasSymbol = true;
+      skipSpace(nested);
+    }
+  }
+  function parseAlternates(nested: boolean) {
+    parseSequence(nested);
+    while (gbnf[index] === "|") {
+      index++;
+      skipSpace(true);
+      parseSequence(nested);
+    }
+  }
+
+  try {
+    skipSpace(true);
+    while (!isAtEnd()) {
+      const name = parseName();
+      skipSpace(false);
+      if (!gbnf.startsWith("::=", index)) {
+        throw new GbnfSyntaxError(`Expected "::=" after rule name "${name}"`, index);
+      }
+      index += 3;
+      skipSpace(true);
+      parseAlternates(false);
+      definedRules.add(name);
+      if (!isAtEnd() && gbnf[index] !== "\n" && gbnf[index] !== "\r") {
+        throw new GbnfSyntaxError(`Unexpected character "${gbnf[index]}"`, index);
+      }
+      skipSpace(true);
+    }
+  } catch (error) {
+    if (error instanceof GbnfSyntaxError) {
+      return { message: error.message, ...toLineAndColumn(gbnf, error.index) };
+    }
+    throw error;
+  }
+  for (const { name, index } of references) {
+    if (!definedRules.has(name)) {
+      return { message: `Undefined rule "${name}"`, ...toLineAndColumn(gbnf, index) };
+    }
+  }
+  if (!definedRules.has("root")) {
+    return { message: 'The grammar must define a "root" rule', line: 1, column: 1 };
+  }
+  return null;
+}
@@ -1,34 +1,94 @@
 export type {
+  ActResult,
+  BatchPredictionResult,
+  ChatSession,
+  ChatSessionOpts,
+  DeepPartial,
   DiagnosticsNamespace,
+  EmbeddingDynamicHandle,
+  EmbeddingLoadModelOpts,
+  EmbeddingNamespace,
+  EmbeddingSpecificModel,
+  LLMActEvent,
+  LLMActOpts,
+  LLMBatchPredictionItem,
+  LLMBatchPredictionStats,
+  LLMChatResponseBatchOpts,
   LLMChatResponseOpts,
+  LLMCompletionBatchOpts,
   LLMCompletionOpts,
   LLMDynamicHandle,
+  LLMGetOrLoadOpts,
   LLMLoadModelOpts,
   LLMNamespace,
+  LLMPool,
   LLMSpecificModel,
+  LLMStructuredPredictionOpt,
+  LLMWaitUntilAvailableOpts,
   LMStudioClientConstructorOpts,
+  OngoingAct,
+  OngoingBatchPrediction,
+  OngoingPartialPrediction,
+  OngoingLoad,
   OngoingPrediction,
+  PartialStructuredOutput,
   PredictionResult,
+  SerializedChatSession,
   SystemNamespace,
+  TimeLimitOpts,
+  Tool,
 } from "@lmstudio/lms-client";
-export type { LoggerInterface, StreamablePromise } from "@lmstudio/lms-common";
 export type {
+  Event,
+  LazySignal,
+  LoggerInterface,
+  NotAvailable,
+  StreamablePromise,
+} from "@lmstudio/lms-common";
+export type {
+  Accelerator,
+  AcceleratorType,
   DiagnosticsLogEvent,
   DiagnosticsLogEventData,
   DownloadedModel,
+  EmbeddingDescriptor,
+  EmbeddingLoadModelConfig,
+  EmbeddingModelQuery,
   LLMAccelerationOffload,
+  LLMApplyPromptTemplateOpts,
+  LLMCapabilities,
   LLMChatHistory,
+  LLMChatHistoryContentPart,
+  LLMChatHistoryImageMimeType,
+  LLMChatHistoryImagePart,
   LLMChatHistoryMessage,
   LLMChatHistoryRole,
+  LLMChatHistoryTextPart,
   LLMChatPredictionConfig,
   LLMCompletionPredictionConfig,
   LLMContextOverflowPolicy,
   LLMDescriptor,
+  LLMJinjaPromptTemplate,
+  LLMKVCacheQuantizationType,
+  LLMLoadEstimate,
   LLMLoadModelConfig,
+  LLMLoadModelConfigDifference,
+  LLMLoadProgressEvent,
+  LLMLoadStage,
+  LLMLogprobsSetting,
+  LLMManualPromptTemplate,
+  LLMMemoryEstimate,
   LLMModelQuery,
   LLMPredictionConfigBase,
   LLMPredictionStats,
   LLMPredictionStopReason,
+  LLMPromptTemplate,
+  LLMSavedStateInfo,
+  LLMSpeculativeDecodingConfig,
   LLMStructuredPredictionSetting,
+  LLMTokenCandidate,
+  LLMTokenLogprob,
+  LLMToolCallRequest,
+  LLMToolDefinition,
   LogLevel,
 } from "@lmstudio/lms-shared-types";
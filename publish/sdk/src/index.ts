@@ -1,2 +1,2 @@
-export { LMStudioClient } from "@lmstudio/lms-client";
+export { LMStudioClient, tool } from "@lmstudio/lms-client";
 export type * from "./exportedTypes";